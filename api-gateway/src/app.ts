@@ -3,141 +3,54 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
-import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
-import axios from 'axios';
-import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
 
 dotenv.config();
 
+// Imported after dotenv so upstream URLs pick up .env
+import { loadRouteTable } from './config/routes';
+import { loadInternalApiToken } from './config/internalApi';
+import { registerRoutes } from './routes/proxy';
+import { buildOpenApiSpec } from './docs/openapi';
+import { stripIdentityHeaders } from './middleware/auth';
+import { RATE_LIMIT_WINDOW_MS, getCurrentRateLimits } from './config/rateLimits';
+import { getCircuitStatus } from './services/circuitBreakers';
+import { initJwks } from './services/jwks';
+import { redisCheck, jwksCheck, circuitCheck, livenessHandler, readinessHandler, deepHealthHandler } from './health/checks';
+import { initMetrics, metricsMiddleware, metricsEndpoint, metricsSummaryEndpoint } from './metrics/prometheus';
+import { logger, initLogger, requestContextMiddleware, requestLoggingMiddleware } from './logging/logger';
+
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-// Swagger configuration
-const swaggerOptions = {
-  definition: {
-    openapi: '3.0.0',
-    info: {
-      title: 'E-commerce Microservices API',
-      version: '1.0.0',
-      description: 'A production-ready e-commerce backend system built with microservices architecture',
-      contact: {
-        name: 'API Support',
-        email: 'support@ecommerce-api.com'
-      }
-    },
-    servers: [
-      {
-        url: `http://localhost:${PORT}`,
-        description: 'Development server'
-      }
-    ],
-    components: {
-      securitySchemes: {
-        bearerAuth: {
-          type: 'http',
-          scheme: 'bearer',
-          bearerFormat: 'JWT'
-        }
-      },
-      schemas: {
-        User: {
-          type: 'object',
-          properties: {
-            id: { type: 'string' },
-            email: { type: 'string', format: 'email' },
-            name: { type: 'string' },
-            createdAt: { type: 'string', format: 'date-time' }
-          }
-        },
-        Product: {
-          type: 'object',
-          properties: {
-            id: { type: 'string' },
-            name: { type: 'string' },
-            description: { type: 'string' },
-            price: { type: 'number' },
-            category: { type: 'string' },
-            stock: { type: 'integer' },
-            createdAt: { type: 'string', format: 'date-time' }
-          }
-        },
-        Order: {
-          type: 'object',
-          properties: {
-            id: { type: 'string' },
-            userId: { type: 'string' },
-            items: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  productId: { type: 'string' },
-                  quantity: { type: 'integer' },
-                  price: { type: 'number' }
-                }
-              }
-            },
-            total: { type: 'number' },
-            status: { type: 'string', enum: ['pending', 'processing', 'shipped', 'delivered'] },
-            createdAt: { type: 'string', format: 'date-time' }
-          }
-        },
-        Error: {
-          type: 'object',
-          properties: {
-            error: { type: 'string' },
-            timestamp: { type: 'string', format: 'date-time' },
-            status: { type: 'integer' }
-          }
-        }
-      }
-    },
-    security: [{
-      bearerAuth: []
-    }]
-  },
-  apis: ['./src/app.ts'] // Path to the API docs
-};
+initMetrics('api-gateway', Number(PORT));
+initLogger('api-gateway');
+
+// Exits if INTERNAL_API_TOKEN is not set (API key checks call user-service with it)
+loadInternalApiToken();
 
-const swaggerSpec = swaggerJsdoc(swaggerOptions);
+// nginx sits in front of the gateway; use its X-Forwarded-For for client IPs
+app.set('trust proxy', 1);
 
-// Service URLs
-const USER_SERVICE_URL = process.env.USER_SERVICE_URL || 'http://localhost:3001';
-const PRODUCT_SERVICE_URL = process.env.PRODUCT_SERVICE_URL || 'http://localhost:3002';
-const ORDER_SERVICE_URL = process.env.ORDER_SERVICE_URL || 'http://localhost:3003';
+// Route table is loaded once at startup; handlers and docs are derived from it
+const routeTable = loadRouteTable();
+const swaggerSpec = buildOpenApiSpec(routeTable, PORT);
 
 // Performance Middleware
+// Correlation ID first so every later log line carries it
+app.use(requestContextMiddleware);
+app.use(requestLoggingMiddleware);
+app.use(metricsMiddleware);
 app.use(compression()); // Gzip compression
 app.use(helmet());
 app.use(cors());
 
-// Rate Limiting - Configured for high load testing
-const limiter = rateLimit({
-  windowMs: 1 * 60 * 1000, // 1 minute window for finer control
-  max: 50000, // 50,000 per minute = ~833 req/s per IP
-  standardHeaders: true,
-  legacyHeaders: false,
-  message: {
-    error: 'Too many requests from this IP, please try again later.',
-    retryAfter: '1 minute'
-  }
-});
-
-app.use(limiter);
-
-// Stricter rate limiting for auth endpoints
-const authLimiter = rateLimit({
-  windowMs: 1 * 60 * 1000,
-  max: 5000, // 5000 per minute for auth
-  standardHeaders: true,
-  legacyHeaders: false,
-  message: { error: 'Too many authentication attempts, please try again later.' }
-});
-
 app.use(express.json({ limit: '10mb' }));
 
+// Identity headers are only ever asserted by the gateway
+app.use(stripIdentityHeaders);
+
 // Request timeout middleware
 app.use((req, res, next) => {
   res.setTimeout(30000, () => {
@@ -146,37 +59,6 @@ app.use((req, res, next) => {
   next();
 });
 
-// Optimized request function with retry logic
-const makeRequest = async (url: string, options: any, retries = 2): Promise<any> => {
-  for (let attempt = 0; attempt <= retries; attempt++) {
-    try {
-      const response = await axios({
-        ...options,
-        url,
-        timeout: 10000, // 10 second timeout
-        maxRedirects: 0,
-      });
-      return response;
-    } catch (error: any) {
-      if (attempt === retries) throw error;
-      
-      // Exponential backoff
-      await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 100));
-    }
-  }
-};
-
-// Gateway health check
-app.get('/health', (req, res) => {
-  res.json({ 
-    status: 'OK', 
-    service: 'API Gateway',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-    memory: process.memoryUsage()
-  });
-});
-
 /**
  * @swagger
  * /api-docs:
@@ -194,12 +76,12 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
  * @swagger
  * /health:
  *   get:
- *     summary: Health check
- *     description: Check the health status of the API Gateway
+ *     summary: Liveness check
+ *     description: Report that the gateway process is up. Alias of /health/live.
  *     tags: [Health]
  *     responses:
  *       200:
- *         description: Gateway is healthy
+ *         description: Gateway is alive
  *         content:
  *           application/json:
  *             schema:
@@ -218,310 +100,118 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
  *                   type: number
  *                 memory:
  *                   type: object
+ * /health/live:
+ *   get:
+ *     summary: Liveness check
+ *     description: Report that the gateway process is up
+ *     tags: [Health]
+ *     responses:
+ *       200:
+ *         description: Gateway is alive
  */
-app.get('/health', (req, res) => {
-  res.json({ 
-    status: 'OK', 
-    service: 'API Gateway',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-    memory: process.memoryUsage()
-  });
-});
-
-// Auth routes with rate limiting
-app.use('/api/auth', authLimiter);
+app.get('/health', livenessHandler('API Gateway'));
+app.get('/health/live', livenessHandler('API Gateway'));
 
 /**
  * @swagger
- * /api/auth/register:
- *   post:
- *     summary: Register a new user
- *     description: Create a new user account
- *     tags: [Authentication]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - email
- *               - password
- *               - name
- *             properties:
- *               email:
- *                 type: string
- *                 format: email
- *                 example: user@example.com
- *               password:
- *                 type: string
- *                 minLength: 6
- *                 example: securepassword
- *               name:
- *                 type: string
- *                 example: John Doe
+ * /health/ready:
+ *   get:
+ *     summary: Readiness check
+ *     description: Check the gateway's own dependencies (Redis, token verification keys) and upstream circuit breakers. Redis being down, stale keys or an open circuit degrade the gateway but do not make it unready.
+ *     tags: [Health]
  *     responses:
- *       201:
- *         description: User registered successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/User'
- *       400:
- *         description: Invalid input
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- *       409:
- *         description: User already exists
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
+ *       200:
+ *         description: Gateway is ready or degraded
+ *       503:
+ *         description: A critical dependency is down
  */
-app.post('/api/auth/register', async (req, res) => {
-  try {
-    const response = await makeRequest(`${USER_SERVICE_URL}/auth/register`, {
-      method: 'POST',
-      data: req.body,
-      headers: { 'Content-Type': 'application/json' }
-    });
-    res.json(response.data);
-  } catch (error: any) {
-    console.error('Auth register error:', error.message);
-    res.status(error.response?.status || 500).json(
-      error.response?.data || { error: 'Authentication service unavailable' }
-    );
-  }
-});
+app.get('/health/ready', readinessHandler('API Gateway', [
+  redisCheck,
+  jwksCheck,
+  circuitCheck('user'),
+  circuitCheck('product'),
+  circuitCheck('order')
+]));
 
 /**
  * @swagger
- * /api/auth/login:
- *   post:
- *     summary: User login
- *     description: Authenticate user and return JWT token
- *     tags: [Authentication]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - email
- *               - password
- *             properties:
- *               email:
- *                 type: string
- *                 format: email
- *                 example: user@example.com
- *               password:
- *                 type: string
- *                 example: securepassword
+ * /health/deep:
+ *   get:
+ *     summary: Deep health check
+ *     description: Readiness and latency of every downstream service. Each service's checks and error messages are only included when the request carries the internal API token.
+ *     tags: [Health]
+ *     parameters:
+ *       - in: header
+ *         name: X-Internal-Token
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Internal API token; adds per-service details
  *     responses:
  *       200:
- *         description: Login successful
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 token:
- *                   type: string
- *                   example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
- *                 user:
- *                   $ref: '#/components/schemas/User'
- *       401:
- *         description: Invalid credentials
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
+ *         description: All downstream services are ready, or some are degraded
+ *       503:
+ *         description: At least one downstream service is unready or unreachable
  */
-app.post('/api/auth/login', async (req, res) => {
-  try {
-    const response = await makeRequest(`${USER_SERVICE_URL}/auth/login`, {
-      method: 'POST',
-      data: req.body,
-      headers: { 'Content-Type': 'application/json' }
-    });
-    res.json(response.data);
-  } catch (error: any) {
-    res.status(error.response?.status || 500).json(
-      error.response?.data || { error: 'Authentication service unavailable' }
-    );
-  }
-});
+app.get('/health/deep', deepHealthHandler);
 
-// Product routes
 /**
  * @swagger
- * /api/products:
+ * /metrics:
  *   get:
- *     summary: Get all products
- *     description: Retrieve a list of all products with optional filtering
- *     tags: [Products]
- *     security:
- *       - bearerAuth: []
- *     parameters:
- *       - in: query
- *         name: category
- *         schema:
- *           type: string
- *         description: Filter products by category
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *         description: Limit the number of results
- *       - in: query
- *         name: offset
- *         schema:
- *           type: integer
- *         description: Number of products to skip
+ *     summary: Prometheus metrics
+ *     description: Request counts, latency histograms and process metrics in Prometheus text format
+ *     tags: [Monitoring]
  *     responses:
  *       200:
- *         description: List of products retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 products:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Product'
- *                 cached:
- *                   type: boolean
- *                   example: false
- *       500:
- *         description: Product service unavailable
+ *         description: Metrics in Prometheus exposition format
  *         content:
- *           application/json:
+ *           text/plain:
  *             schema:
- *               $ref: '#/components/schemas/Error'
+ *               type: string
  */
-app.get('/api/products', async (req, res) => {
-  try {
-    const response = await makeRequest(`${PRODUCT_SERVICE_URL}/products`, {
-      method: 'GET',
-      params: req.query
-    });
-    res.json(response.data);
-  } catch (error: any) {
-    res.status(error.response?.status || 500).json(
-      error.response?.data || { error: 'Product service unavailable' }
-    );
-  }
-});
+app.get('/metrics', metricsEndpoint);
 
 /**
  * @swagger
- * /api/products:
- *   post:
- *     summary: Create a new product
- *     description: Create a new product in the catalog
- *     tags: [Products]
- *     security:
- *       - bearerAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - name
- *               - description
- *               - price
- *               - category
- *               - stock
- *             properties:
- *               name:
- *                 type: string
- *                 example: Wireless Headphones
- *               description:
- *                 type: string
- *                 example: High-quality wireless headphones with noise cancellation
- *               price:
- *                 type: number
- *                 example: 199.99
- *               category:
- *                 type: string
- *                 example: Electronics
- *               stock:
- *                 type: integer
- *                 example: 50
+ * /metrics/summary:
+ *   get:
+ *     summary: Metrics summary
+ *     description: Request totals, error counts and latency percentiles as JSON
+ *     tags: [Monitoring]
  *     responses:
- *       201:
- *         description: Product created successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Product'
- *       400:
- *         description: Invalid input data
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- *       401:
- *         description: Unauthorized
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- *       500:
- *         description: Product service unavailable
+ *       200:
+ *         description: Metrics summary
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/Error'
+ *               type: object
  */
-app.post('/api/products', async (req, res) => {
-  try {
-    const response = await makeRequest(`${PRODUCT_SERVICE_URL}/products`, {
-      method: 'POST',
-      data: req.body,
-      headers: { 'Content-Type': 'application/json' }
-    });
-    res.json(response.data);
-  } catch (error: any) {
-    res.status(error.response?.status || 500).json(
-      error.response?.data || { error: 'Product service unavailable' }
-    );
-  }
-});
+app.get('/metrics/summary', metricsSummaryEndpoint);
 
-// Request logging middleware
-app.use((req, res, next) => {
-  const start = Date.now();
-  res.on('finish', () => {
-    const duration = Date.now() - start;
-    console.log(`${req.method} ${req.path} - ${res.statusCode} - ${duration}ms`);
-  });
-  next();
-});
+// Proxied upstream routes
+registerRoutes(app, routeTable);
 
 // Enhanced error handling
 app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Gateway error:', error);
+  logger.error('Gateway error', error);
   res.status(500).json({ 
     error: 'Internal gateway error',
     timestamp: new Date().toISOString()
   });
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`Optimized API Gateway running on port ${PORT}`);
-  console.log(`Compression enabled`);
-  console.log(`Rate limiting: 1000 req/15min`);
-  console.log(`Auth rate limiting: 50 req/15min`);
-  console.log(`Request timeout: 30s`);
+// Start server once tokens can be verified
+initJwks().then(() => {
+  app.listen(PORT, () => {
+    logger.info(`Optimized API Gateway running on port ${PORT}`, {
+      compression: true,
+      proxiedRoutes: routeTable.length,
+      rateLimits: { windowSeconds: RATE_LIMIT_WINDOW_MS / 1000, ...getCurrentRateLimits() },
+      requestTimeoutSeconds: 30,
+      circuitBreakers: Object.keys(getCircuitStatus())
+    });
+  });
 });
 
 export default app;
\ No newline at end of file
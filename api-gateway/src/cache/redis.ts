@@ -1,19 +1,25 @@
 // ===== src/cache/redis.ts =====
 import Redis from 'ioredis';
+import { logger } from '../logging/logger';
 
 const redis = new Redis({
   host: process.env.REDIS_HOST || 'redis',
   port: 6379,
   maxRetriesPerRequest: 3,
   lazyConnect: true,
+  enableReadyCheck: true,
+  retryStrategy: (times) => {
+    if (times > 3) return null;
+    return Math.min(times * 200, 2000);
+  }
 });
 
 redis.on('connect', () => {
-  console.log('Redis connected');
+  logger.info('Redis connected');
 });
 
 redis.on('error', (err) => {
-  console.error('Redis error:', err);
+  logger.error('Redis error', err);
 });
 
 // Cache helper functions
@@ -23,7 +29,7 @@ export const cache = {
       const data = await redis.get(key);
       return data ? JSON.parse(data) : null;
     } catch (error) {
-      console.error('Cache get error:', error);
+      logger.error('Cache get error', error);
       return null;
     }
   },
@@ -33,7 +39,7 @@ export const cache = {
       await redis.setex(key, ttlSeconds, JSON.stringify(data));
       return true;
     } catch (error) {
-      console.error('Cache set error:', error);
+      logger.error('Cache set error', error);
       return false;
     }
   },
@@ -43,17 +49,40 @@ export const cache = {
       await redis.del(key);
       return true;
     } catch (error) {
-      console.error('Cache delete error:', error);
+      logger.error('Cache delete error', error);
       return false;
     }
   },
 
+  // Pattern-based deletion using SCAN (memory efficient)
+  async delPattern(pattern: string) {
+    try {
+      let cursor = '0';
+      let deletedCount = 0;
+      
+      do {
+        const [newCursor, keys] = await redis.scan(cursor, 'MATCH', pattern, 'COUNT', 100);
+        cursor = newCursor;
+        
+        if (keys.length > 0) {
+          await redis.del(...keys);
+          deletedCount += keys.length;
+        }
+      } while (cursor !== '0');
+      
+      return deletedCount;
+    } catch (error) {
+      logger.error('Cache pattern delete error', error);
+      return 0;
+    }
+  },
+
   async flush() {
     try {
       await redis.flushall();
       return true;
     } catch (error) {
-      console.error('Cache flush error:', error);
+      logger.error('Cache flush error', error);
       return false;
     }
   }
@@ -0,0 +1,108 @@
+// ===== Gateway Response Cache with ETags =====
+// Cacheable GET routes are served from Redis. Entries are keyed by gateway
+// path plus sorted query string: gateway:response:<path>|<query>
+// A long-lived stale copy of each entry is kept alongside so reads can still
+// be answered while an upstream's circuit breaker is open.
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { cache } from './redis';
+
+const KEY_PREFIX = 'gateway:response:';
+const STALE_PREFIX = 'gateway:response-stale:';
+const STALE_TTL_SECONDS = Number(process.env.STALE_CACHE_TTL_SECONDS) || 86400;
+
+export interface CachedResponse {
+  status: number;
+  body: any;
+  etag: string;
+  storedAt: string;
+}
+
+// Strong ETag over the exact JSON body we send
+export const computeEtag = (body: any) =>
+  `"${crypto.createHash('sha1').update(JSON.stringify(body)).digest('base64url')}"`;
+
+export const responseCacheKey = (req: Request) => {
+  const query = Object.keys(req.query)
+    .sort()
+    .map(name => `${name}=${JSON.stringify(req.query[name])}`)
+    .join('&');
+  return `${KEY_PREFIX}${req.path}|${query}`;
+};
+
+const staleKey = (key: string) => STALE_PREFIX + key.slice(KEY_PREFIX.length);
+
+const escapeGlob = (value: string) => value.replace(/[*?[\]\\]/g, '\\$&');
+
+export const responseCache = {
+  get(key: string): Promise<CachedResponse | null> {
+    return cache.get(key);
+  },
+
+  async set(key: string, status: number, body: any, ttlSeconds: number): Promise<CachedResponse> {
+    const entry: CachedResponse = {
+      status,
+      body,
+      etag: computeEtag(body),
+      storedAt: new Date().toISOString()
+    };
+    await Promise.all([
+      cache.set(key, entry, ttlSeconds),
+      cache.set(staleKey(key), entry, STALE_TTL_SECONDS)
+    ]);
+    return entry;
+  },
+
+  // Last good response for a key, kept well past the fresh TTL
+  getStale(key: string): Promise<CachedResponse | null> {
+    return cache.get(staleKey(key));
+  },
+
+  // Purge entries for gateway path patterns, e.g. '/api/products/:id' or
+  // '/api/products/category/*'. :params are filled from the write request.
+  async invalidate(patterns: string[], params: Record<string, string>) {
+    let purged = 0;
+    for (const pattern of patterns) {
+      const path = pattern.replace(/:(\w+)/g, (_, name) => escapeGlob(encodeURIComponent(params[name] ?? '')));
+      purged += await cache.delPattern(`${KEY_PREFIX}${path}|*`);
+      purged += await cache.delPattern(`${STALE_PREFIX}${path}|*`);
+    }
+    return purged;
+  }
+};
+
+const matchesIfNoneMatch = (req: Request, etag: string) => {
+  const header = req.headers['if-none-match'];
+  if (!header) return false;
+  return header === '*' || header.split(',').some(tag => tag.trim() === etag);
+};
+
+// Send a cached or freshly fetched entry, answering conditional GETs with 304
+export const sendCachedResponse = (
+  req: Request,
+  res: Response,
+  entry: CachedResponse,
+  ttlSeconds: number,
+  cacheStatus: 'HIT' | 'MISS'
+) => {
+  res.set({
+    ETag: entry.etag,
+    'Cache-Control': `public, max-age=${ttlSeconds}`,
+    'X-Cache': cacheStatus
+  });
+
+  if (matchesIfNoneMatch(req, entry.etag)) {
+    return res.status(304).end();
+  }
+  res.status(entry.status).json(entry.body);
+};
+
+// Serve the last good response while the upstream is unavailable
+export const sendStaleResponse = (res: Response, entry: CachedResponse) => {
+  res.set({
+    'Cache-Control': 'no-cache',
+    'X-Cache': 'STALE',
+    Warning: '110 - "Response is Stale"'
+  });
+  res.status(entry.status).json({ ...entry.body, stale: true });
+};
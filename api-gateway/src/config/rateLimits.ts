@@ -0,0 +1,59 @@
+// ===== Rate Limit Tiers =====
+// Limits are read from Redis so every gateway replica picks up a change
+// without a redeploy:
+//   redis-cli HSET gateway:ratelimit:limits read 60000 write 5000 auth 1000
+// Values are requests per window per client (user ID, otherwise IP).
+import redis from '../cache/redis';
+import { logger } from '../logging/logger';
+
+export type RateLimitTier = 'read' | 'write' | 'auth';
+
+export const RATE_LIMIT_TIERS: RateLimitTier[] = ['read', 'write', 'auth'];
+
+export const RATE_LIMIT_CONFIG_KEY = 'gateway:ratelimit:limits';
+
+export const RATE_LIMIT_WINDOW_MS = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000'); // 1 minute
+
+const REFRESH_INTERVAL_MS = 30000;
+
+const defaultLimits: Record<RateLimitTier, number> = {
+  read: parseInt(process.env.RATE_LIMIT_READ_MAX || '50000'),   // ~833 req/s per client
+  write: parseInt(process.env.RATE_LIMIT_WRITE_MAX || '10000'),
+  auth: parseInt(process.env.RATE_LIMIT_AUTH_MAX || '5000'),
+};
+
+// Requests per window per IP rejected with 401 on authenticated routes
+export const AUTH_FAILURE_LIMIT = parseInt(process.env.RATE_LIMIT_AUTH_FAILURE_MAX || '100');
+
+let currentLimits = { ...defaultLimits };
+let refreshedAt = 0;
+let refreshing: Promise<void> | null = null;
+
+const refreshLimits = async () => {
+  try {
+    const overrides = await redis.hgetall(RATE_LIMIT_CONFIG_KEY);
+    const next = { ...defaultLimits };
+
+    for (const tier of RATE_LIMIT_TIERS) {
+      const value = parseInt(overrides[tier]);
+      if (value > 0) next[tier] = value;
+    }
+    currentLimits = next;
+  } catch (error: any) {
+    // Keep the last known limits if Redis is unavailable
+    logger.error('Rate limit config refresh error', { error: error.message });
+  } finally {
+    refreshedAt = Date.now();
+    refreshing = null;
+  }
+};
+
+export const getRateLimit = async (tier: RateLimitTier): Promise<number> => {
+  if (Date.now() - refreshedAt > REFRESH_INTERVAL_MS) {
+    refreshing = refreshing || refreshLimits();
+    await refreshing;
+  }
+  return currentLimits[tier];
+};
+
+export const getCurrentRateLimits = () => ({ ...currentLimits });
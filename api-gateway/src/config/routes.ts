@@ -0,0 +1,1865 @@
+// ===== Declarative Gateway Route Table =====
+// Every proxied endpoint is described here once. The gateway registers its
+// Express handlers and builds its OpenAPI document from this table, so adding
+// an upstream route is a config change rather than a new handler.
+import fs from 'fs';
+import { UpstreamName, upstreams } from './services';
+import { RateLimitTier, RATE_LIMIT_TIERS } from './rateLimits';
+
+export type Role = 'customer' | 'staff' | 'admin';
+
+export const ROLES: Role[] = ['customer', 'staff', 'admin'];
+
+export type ApiKeyScope = 'catalog:write' | 'orders:read' | 'orders:write';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['catalog:write', 'orders:read', 'orders:write'];
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RouteDocs {
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: any[];
+  requestBody?: any;
+  responses: Record<string, any>;
+}
+
+export interface RouteDefinition {
+  method: HttpMethod;
+  path: string;            // Gateway path, Express syntax (e.g. /api/products/:id)
+  upstream: UpstreamName;
+  upstreamPath: string;    // Upstream path; :params are filled from the gateway path
+  auth: boolean;           // Require a valid bearer token
+  roles?: Role[];          // Require at least one of these roles (implies auth)
+  scopes?: ApiKeyScope[];  // Also accept API keys holding one of these scopes (implies auth)
+  rateLimit: RateLimitTier;
+  cacheTtl?: number;       // Seconds; public GETs with a TTL are served from the gateway cache
+  invalidates?: string[];  // Cached gateway paths purged after a successful write (:params, * globs)
+  timeout: number;         // Upstream timeout in milliseconds
+  docs: RouteDocs;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// ===== OpenAPI Helpers =====
+const schemaRef = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonResponse = (description: string, schema: any) => ({
+  description,
+  content: { 'application/json': { schema } }
+});
+
+const errorResponse = (description: string) => jsonResponse(description, schemaRef('Error'));
+
+const jsonBody = (schema: any) => ({
+  required: true,
+  content: { 'application/json': { schema } }
+});
+
+const queryParam = (name: string, description: string, schema: any = { type: 'string' }) => ({
+  in: 'query',
+  name,
+  schema,
+  description
+});
+
+const pageParams = (maxLimit: number) => [
+  queryParam('page', 'Page number', { type: 'integer', default: 1 }),
+  queryParam('limit', 'Items per page', { type: 'integer', default: 20, maximum: maxLimit })
+];
+
+const messageWith = (message: string, key?: string, schema?: any) => ({
+  type: 'object',
+  properties: {
+    message: { type: 'string', example: message },
+    ...(key ? { [key]: schema } : {})
+  }
+});
+
+const productFields = {
+  name: { type: 'string', example: 'Wireless Headphones' },
+  description: { type: 'string', example: 'High-quality wireless headphones with noise cancellation' },
+  price: { type: 'number', example: 199.99 },
+  category: { type: 'string', example: 'Electronics' },
+  stock: { type: 'integer', example: 50 }
+};
+
+const categoryFields = {
+  name: { type: 'string', example: 'Electronics' },
+  description: { type: 'string', example: 'Phones, laptops and accessories' }
+};
+
+const tokenFields = {
+  token: { type: 'string', description: 'Access token (JWT)', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' },
+  refreshToken: { type: 'string', description: 'Single-use refresh token' },
+  expiresIn: { type: 'integer', description: 'Access token lifetime in seconds', example: 900 }
+};
+
+// Login response when the user has MFA on
+const mfaChallengeFields = {
+  mfaRequired: { type: 'boolean', description: 'Present instead of tokens; complete at /api/auth/login/mfa' },
+  challengeToken: { type: 'string', description: 'Valid for expiresIn seconds' }
+};
+
+const addressFields = {
+  label: { type: 'string', maxLength: 50, example: 'Home' },
+  recipient: { type: 'string', maxLength: 100, example: 'John Doe' },
+  line1: { type: 'string', maxLength: 200, example: '221B Baker Street' },
+  line2: { type: 'string', maxLength: 200 },
+  city: { type: 'string', maxLength: 100, example: 'London' },
+  postcode: { type: 'string', description: 'Checked against the country\'s postcode format', example: 'NW1 6XE' },
+  country: { type: 'string', description: 'ISO 3166-1 alpha-2 code', example: 'GB' },
+  phone: { type: 'string', example: '+44 20 7946 0000' }
+};
+
+const defaultFlags = {
+  defaultShipping: { type: 'boolean', description: 'Make this the default shipping address' },
+  defaultBilling: { type: 'boolean', description: 'Make this the default billing address' }
+};
+
+const addressBook = {
+  type: 'object',
+  properties: {
+    addresses: { type: 'array', items: schemaRef('Address') },
+    defaultShippingAddressId: { type: 'string', nullable: true },
+    defaultBillingAddressId: { type: 'string', nullable: true }
+  }
+};
+
+const apiKeyFields = {
+  id: { type: 'string' },
+  name: { type: 'string', example: 'Warehouse sync' },
+  prefix: { type: 'string', description: 'Start of the key, to tell keys apart', example: 'ak_Xy12ab' },
+  userId: { type: 'string' },
+  scopes: { type: 'array', items: { type: 'string', enum: API_KEY_SCOPES } },
+  rateLimitPerMinute: { type: 'integer', example: 600 },
+  lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+  revokedAt: { type: 'string', format: 'date-time', nullable: true },
+  createdAt: { type: 'string', format: 'date-time' }
+};
+
+const orderStatus = { type: 'string', enum: ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled'] };
+
+// Catalog and order administration
+const STAFF_ROLES: Role[] = ['staff', 'admin'];
+
+// Cached entries touched by catalog writes
+const PRODUCT_LISTS = ['/api/products', '/api/products/category/*'];
+const CATEGORY_LISTS = ['/api/categories'];
+
+// ===== Default Route Table =====
+export const defaultRouteTable: RouteDefinition[] = [
+  // ----- Authentication -----
+  {
+    method: 'GET',
+    path: '/.well-known/jwks.json',
+    upstream: 'user',
+    upstreamPath: '/.well-known/jwks.json',
+    auth: false,
+    rateLimit: 'read',
+    cacheTtl: 300,
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Token verification keys',
+      description: 'Public keys (JWK Set) for verifying RS256 access tokens. Pick the key by the token\'s kid header. Retired keys stay listed while tokens signed with them can still be valid.',
+      tags: ['Authentication'],
+      responses: {
+        200: jsonResponse('JWK Set', {
+          type: 'object',
+          properties: {
+            keys: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  kty: { type: 'string', example: 'RSA' },
+                  kid: { type: 'string', example: '2026-10-19' },
+                  alg: { type: 'string', example: 'RS256' },
+                  use: { type: 'string', example: 'sig' },
+                  n: { type: 'string' },
+                  e: { type: 'string', example: 'AQAB' }
+                }
+              }
+            }
+          }
+        })
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/register',
+    upstream: 'user',
+    upstreamPath: '/auth/register',
+    auth: false,
+    rateLimit: 'auth',
+    timeout: 15000, // bcrypt hashing
+    docs: {
+      summary: 'Register a new user',
+      description: 'Create a new user account',
+      tags: ['Authentication'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['email', 'password', 'name'],
+        properties: {
+          email: { type: 'string', format: 'email', example: 'user@example.com' },
+          password: { type: 'string', minLength: 6, example: 'securepassword' },
+          name: { type: 'string', example: 'John Doe' }
+        }
+      }),
+      responses: {
+        201: jsonResponse('User registered successfully', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'User created successfully' },
+            ...tokenFields,
+            user: schemaRef('User')
+          }
+        }),
+        400: errorResponse('Invalid input or user already exists')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/register/async',
+    upstream: 'user',
+    upstreamPath: '/auth/register/async',
+    auth: false,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Register a new user asynchronously',
+      description: 'Queue the registration and return a request ID to poll. Same validation and outcome as /api/auth/register.',
+      tags: ['Authentication'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['email', 'password', 'name'],
+        properties: {
+          email: { type: 'string', format: 'email', example: 'user@example.com' },
+          password: { type: 'string', minLength: 6, example: 'securepassword' },
+          name: { type: 'string', example: 'John Doe' }
+        }
+      }),
+      responses: {
+        202: jsonResponse('Registration queued', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'Registration queued' },
+            requestId: { type: 'string', format: 'uuid' },
+            statusUrl: { type: 'string' }
+          }
+        }),
+        400: errorResponse('Invalid input')
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/register/status/:requestId',
+    upstream: 'user',
+    upstreamPath: '/auth/register/status/:requestId',
+    auth: false,
+    rateLimit: 'read',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Asynchronous registration status',
+      description: 'Poll a queued registration. A succeeded result includes the tokens and profile and can be read only once.',
+      tags: ['Authentication'],
+      responses: {
+        200: jsonResponse('Registration status', {
+          type: 'object',
+          properties: {
+            requestId: { type: 'string', format: 'uuid' },
+            status: { type: 'string', enum: ['pending', 'succeeded', 'failed'] },
+            error: { type: 'string', description: 'Present when status is failed' },
+            ...tokenFields,
+            user: schemaRef('User')
+          }
+        }),
+        404: errorResponse('Unknown or expired request ID')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/login',
+    upstream: 'user',
+    upstreamPath: '/auth/login',
+    auth: false,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'User login',
+      description: 'Authenticate user and start a session. Returns a short-lived access token and a refresh token. ' +
+        'Users with MFA enabled get a challenge token instead, to complete at /api/auth/login/mfa.',
+      tags: ['Authentication'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['email', 'password'],
+        properties: {
+          email: { type: 'string', format: 'email', example: 'user@example.com' },
+          password: { type: 'string', example: 'securepassword' }
+        }
+      }),
+      responses: {
+        200: jsonResponse('Login successful, or an MFA code is required', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'Login successful' },
+            ...tokenFields,
+            user: schemaRef('User'),
+            mfaEnrolmentRequired: { type: 'boolean', description: 'Set when a role requires MFA; that role is left out of the token until MFA is enabled' },
+            ...mfaChallengeFields
+          }
+        }),
+        400: errorResponse('Missing fields or invalid credentials'),
+        403: errorResponse('Account disabled'),
+        423: errorResponse('Account locked after too many failed attempts; see Retry-After'),
+        429: errorResponse('Rate limit exceeded, or too many failed attempts from this account or IP; see Retry-After')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/login/mfa',
+    upstream: 'user',
+    upstreamPath: '/auth/login/mfa',
+    auth: false,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Complete login with MFA',
+      description: 'Exchange the challenge token from /api/auth/login and an authenticator code (or a single-use recovery code) for tokens. ' +
+        'A challenge allows 5 attempts within 5 minutes.',
+      tags: ['Authentication'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['challengeToken'],
+        properties: {
+          challengeToken: { type: 'string' },
+          code: { type: 'string', description: '6-digit authenticator code', example: '123456' },
+          recoveryCode: { type: 'string', description: 'Used instead of code', example: 'a1b2c-d3e4f' }
+        }
+      }),
+      responses: {
+        200: jsonResponse('Login successful', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'Login successful' },
+            ...tokenFields,
+            user: schemaRef('User')
+          }
+        }),
+        400: errorResponse('Missing challenge token or code'),
+        401: errorResponse('Invalid or expired challenge, or invalid code'),
+        403: errorResponse('Account disabled'),
+        423: errorResponse('Account locked after too many failed attempts; see Retry-After')
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/oidc/providers',
+    upstream: 'user',
+    upstreamPath: '/auth/oidc/providers',
+    auth: false,
+    rateLimit: 'read',
+    cacheTtl: 60,
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'List identity providers',
+      description: 'External OpenID Connect providers users can sign in with',
+      tags: ['Authentication'],
+      responses: {
+        200: jsonResponse('Configured providers', {
+          type: 'object',
+          properties: {
+            providers: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', example: 'acme' },
+                  name: { type: 'string', example: 'Acme Corp SSO' }
+                }
+              }
+            }
+          }
+        })
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/oidc/:provider/authorize',
+    upstream: 'user',
+    upstreamPath: '/auth/oidc/:provider/authorize',
+    auth: false,
+    rateLimit: 'auth',
+    timeout: 15000, // provider discovery
+    docs: {
+      summary: 'Start identity provider login',
+      description: 'Start an authorization code login with PKCE. Send the browser to authorizationUrl; ' +
+        'the provider redirects back with code and state, to be posted to /api/auth/oidc/callback within expiresIn seconds.',
+      tags: ['Authentication'],
+      parameters: [
+        { in: 'query', name: 'loginHint', schema: { type: 'string', format: 'email' }, description: 'Passed to the provider as login_hint' }
+      ],
+      responses: {
+        200: jsonResponse('Provider login URL', {
+          type: 'object',
+          properties: {
+            authorizationUrl: { type: 'string', example: 'https://idp.example.com/authorize?response_type=code&...' },
+            state: { type: 'string' },
+            expiresIn: { type: 'integer', example: 600 }
+          }
+        }),
+        404: errorResponse('Unknown identity provider'),
+        502: errorResponse('Identity provider unavailable')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/oidc/callback',
+    upstream: 'user',
+    upstreamPath: '/auth/oidc/callback',
+    auth: false,
+    rateLimit: 'auth',
+    timeout: 15000, // code exchange with the provider
+    docs: {
+      summary: 'Finish identity provider login',
+      description: 'Exchange the code and state from the provider\'s redirect for tokens. The account is the one linked to the provider identity before, ' +
+        'or the one with the provider-verified email (created if there is none). Users with MFA enabled get an MFA challenge, as with a password login.',
+      tags: ['Authentication'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['state', 'code'],
+        properties: {
+          state: { type: 'string' },
+          code: { type: 'string' }
+        }
+      }),
+      responses: {
+        200: jsonResponse('Login successful, or an MFA code is required', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'Login successful' },
+            ...tokenFields,
+            user: schemaRef('User'),
+            ...mfaChallengeFields
+          }
+        }),
+        400: errorResponse('Missing fields, unknown or expired state, or code rejected by the provider'),
+        401: errorResponse('Invalid ID token'),
+        403: errorResponse('Email not verified by the provider, or account disabled'),
+        409: errorResponse('Account already linked to another identity at this provider'),
+        502: errorResponse('Identity provider unavailable')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/refresh',
+    upstream: 'user',
+    upstreamPath: '/auth/refresh',
+    auth: false,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Refresh access token',
+      description: 'Exchange a refresh token for a new access token and refresh token. Each refresh token works once; reusing one revokes its session.',
+      tags: ['Authentication'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['refreshToken'],
+        properties: {
+          refreshToken: { type: 'string' }
+        }
+      }),
+      responses: {
+        200: jsonResponse('New token pair', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'Token refreshed' },
+            ...tokenFields
+          }
+        }),
+        400: errorResponse('Refresh token missing'),
+        401: errorResponse('Refresh token invalid, expired or reused')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/forgot-password',
+    upstream: 'user',
+    upstreamPath: '/auth/forgot-password',
+    auth: false,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Request a password reset',
+      description: 'Email a single-use password reset link. The response is the same whether or not the account exists.',
+      tags: ['Authentication'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string', format: 'email', example: 'user@example.com' }
+        }
+      }),
+      responses: {
+        202: jsonResponse('Reset link sent if the account exists',
+          messageWith('If an account exists for that email, a password reset link has been sent')),
+        400: errorResponse('Email missing')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/reset-password',
+    upstream: 'user',
+    upstreamPath: '/auth/reset-password',
+    auth: false,
+    rateLimit: 'auth',
+    timeout: 15000, // bcrypt hashing
+    docs: {
+      summary: 'Reset password',
+      description: 'Set a new password with a reset token. Every existing session of the user is revoked.',
+      tags: ['Authentication'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['token', 'password'],
+        properties: {
+          token: { type: 'string' },
+          password: { type: 'string', minLength: 6, example: 'newsecurepassword' }
+        }
+      }),
+      responses: {
+        200: jsonResponse('Password reset', messageWith('Password has been reset. Please log in with your new password.')),
+        400: errorResponse('Missing fields, weak password, or invalid/expired token')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/verify-email',
+    upstream: 'user',
+    upstreamPath: '/auth/verify-email',
+    auth: false,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Verify email address',
+      description: 'Confirm the email address with the token from the verification email. Refresh the access token afterwards to pick up the change.',
+      tags: ['Authentication'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: { type: 'string' }
+        }
+      }),
+      responses: {
+        200: jsonResponse('Email verified', messageWith('Email verified successfully. Refresh your token to pick up the change.')),
+        400: errorResponse('Token missing, invalid or expired')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/verify-email/resend',
+    upstream: 'user',
+    upstreamPath: '/auth/verify-email/resend',
+    auth: true,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Resend verification email',
+      description: 'Send a new verification link. Limited to one per minute per user.',
+      tags: ['Authentication'],
+      responses: {
+        202: jsonResponse('Verification email sent', messageWith('Verification email sent')),
+        400: errorResponse('Email is already verified'),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/logout',
+    upstream: 'user',
+    upstreamPath: '/auth/logout',
+    auth: true,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Log out',
+      description: 'Revoke the current session. Its access and refresh tokens stop working immediately.',
+      tags: ['Authentication'],
+      responses: {
+        200: jsonResponse('Session revoked', messageWith('Logged out successfully'))
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/logout-all',
+    upstream: 'user',
+    upstreamPath: '/auth/logout-all',
+    auth: true,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Log out everywhere',
+      description: 'Revoke every session of the current user',
+      tags: ['Authentication'],
+      responses: {
+        200: jsonResponse('All sessions revoked', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'Logged out of all sessions' },
+            sessionsRevoked: { type: 'integer', example: 3 }
+          }
+        })
+      }
+    }
+  },
+
+  {
+    method: 'GET',
+    path: '/api/auth/sessions',
+    upstream: 'user',
+    upstreamPath: '/auth/sessions',
+    auth: true,
+    rateLimit: 'read',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'List sessions',
+      description: 'Devices the user is signed in on, most recently active first. Last seen is updated on login and on each token refresh.',
+      tags: ['Sessions'],
+      responses: {
+        200: jsonResponse('Active sessions', {
+          type: 'object',
+          properties: {
+            sessions: { type: 'array', items: schemaRef('Session') }
+          }
+        })
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/auth/sessions',
+    upstream: 'user',
+    upstreamPath: '/auth/sessions',
+    auth: true,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Sign out other devices',
+      description: 'Revoke every session except the current one. Use /api/auth/logout-all to include the current one.',
+      tags: ['Sessions'],
+      responses: {
+        200: jsonResponse('Other sessions revoked', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'Other sessions revoked' },
+            sessionsRevoked: { type: 'integer', example: 2 }
+          }
+        })
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/auth/sessions/:sessionId',
+    upstream: 'user',
+    upstreamPath: '/auth/sessions/:sessionId',
+    auth: true,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Revoke a session',
+      description: 'Sign one device out. Its access and refresh tokens stop working immediately. Revoking the current session logs out.',
+      tags: ['Sessions'],
+      responses: {
+        200: jsonResponse('Session revoked', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'Session revoked' },
+            current: { type: 'boolean', description: 'The revoked session was the one making the request' }
+          }
+        }),
+        404: errorResponse('No active session with this id for the user')
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/mfa',
+    upstream: 'user',
+    upstreamPath: '/auth/mfa',
+    auth: true,
+    rateLimit: 'read',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Get MFA status',
+      tags: ['MFA'],
+      responses: {
+        200: jsonResponse('MFA status', {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            enabledAt: { type: 'string', format: 'date-time', nullable: true },
+            setupPending: { type: 'boolean', description: 'A secret was issued but not yet confirmed' },
+            recoveryCodesRemaining: { type: 'integer', example: 10 },
+            requiredForRole: { type: 'boolean', description: 'One of the user\'s roles requires MFA' }
+          }
+        }),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/mfa/setup',
+    upstream: 'user',
+    upstreamPath: '/auth/mfa/setup',
+    auth: true,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Start MFA setup',
+      description: 'Issue a TOTP secret for an authenticator app. MFA is not on until the secret is confirmed.',
+      tags: ['MFA'],
+      responses: {
+        200: jsonResponse('Secret issued', {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            secret: { type: 'string', description: 'Base32 secret', example: 'JBSWY3DPEHPK3PXP' },
+            otpauthUri: { type: 'string', description: 'For QR codes', example: 'otpauth://totp/E-commerce:user%40example.com?secret=...' }
+          }
+        }),
+        400: errorResponse('MFA is already enabled'),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/mfa/confirm',
+    upstream: 'user',
+    upstreamPath: '/auth/mfa/confirm',
+    auth: true,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Confirm MFA setup',
+      description: 'Turn MFA on with a first code from the authenticator app. Returns recovery codes once; every other session is revoked.',
+      tags: ['MFA'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['code'],
+        properties: { code: { type: 'string', example: '123456' } }
+      }),
+      responses: {
+        200: jsonResponse('MFA enabled', {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            recoveryCodes: { type: 'array', items: { type: 'string' }, example: ['a1b2c-d3e4f'] },
+            sessionsRevoked: { type: 'integer', example: 1 }
+          }
+        }),
+        400: errorResponse('Missing or invalid code, no setup in progress, or MFA already enabled'),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/mfa/disable',
+    upstream: 'user',
+    upstreamPath: '/auth/mfa/disable',
+    auth: true,
+    rateLimit: 'auth',
+    timeout: 15000, // bcrypt comparison
+    docs: {
+      summary: 'Turn off MFA',
+      description: 'Needs the password and a code or recovery code. Refused while one of the user\'s roles requires MFA.',
+      tags: ['MFA'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['password'],
+        properties: {
+          password: { type: 'string' },
+          code: { type: 'string' },
+          recoveryCode: { type: 'string' }
+        }
+      }),
+      responses: {
+        200: jsonResponse('MFA disabled', messageWith('MFA disabled')),
+        400: errorResponse('Missing fields, wrong password or code, MFA not enabled, or MFA required for the user\'s role'),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/mfa/recovery-codes',
+    upstream: 'user',
+    upstreamPath: '/auth/mfa/recovery-codes',
+    auth: true,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Regenerate recovery codes',
+      description: 'Replace every recovery code. Needs an authenticator code.',
+      tags: ['MFA'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['code'],
+        properties: { code: { type: 'string', example: '123456' } }
+      }),
+      responses: {
+        200: jsonResponse('New recovery codes', {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            recoveryCodes: { type: 'array', items: { type: 'string' } }
+          }
+        }),
+        400: errorResponse('Missing or invalid code, or MFA not enabled')
+      }
+    }
+  },
+
+  {
+    method: 'PUT',
+    path: '/api/auth/password',
+    upstream: 'user',
+    upstreamPath: '/auth/password',
+    auth: true,
+    rateLimit: 'auth',
+    timeout: 15000, // bcrypt hashing
+    docs: {
+      summary: 'Change password',
+      description: 'Change the password after confirming the current one. Every other session of the user is revoked.',
+      tags: ['Authentication'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['currentPassword', 'newPassword'],
+        properties: {
+          currentPassword: { type: 'string' },
+          newPassword: { type: 'string', minLength: 6 }
+        }
+      }),
+      responses: {
+        200: jsonResponse('Password changed', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'Password changed successfully' },
+            sessionsRevoked: { type: 'integer', example: 2 }
+          }
+        }),
+        400: errorResponse('Missing fields, weak or unchanged password, or wrong current password'),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/auth/account',
+    upstream: 'user',
+    upstreamPath: '/auth/account',
+    auth: true,
+    rateLimit: 'auth',
+    timeout: 20000, // bcrypt plus the order-service call
+    docs: {
+      summary: 'Delete account',
+      description: 'Delete the account after confirming the password. Orders are kept for financial records but detached from the user.',
+      tags: ['Authentication'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['password'],
+        properties: {
+          password: { type: 'string' }
+        }
+      }),
+      responses: {
+        200: jsonResponse('Account deleted', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'Account deleted' },
+            ordersAnonymized: { type: 'integer', example: 4 }
+          }
+        }),
+        400: errorResponse('Password missing or incorrect'),
+        404: errorResponse('User not found'),
+        503: errorResponse('Order service unavailable; nothing was deleted')
+      }
+    }
+  },
+
+  // ----- Profile -----
+  {
+    method: 'GET',
+    path: '/api/auth/profile',
+    upstream: 'user',
+    upstreamPath: '/auth/profile',
+    auth: true,
+    rateLimit: 'read',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Get profile',
+      description: 'Return the current user\'s profile',
+      tags: ['Profile'],
+      responses: {
+        200: jsonResponse('User profile', {
+          type: 'object',
+          properties: {
+            user: schemaRef('User'),
+            cached: { type: 'boolean' }
+          }
+        }),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'PUT',
+    path: '/api/auth/profile',
+    upstream: 'user',
+    upstreamPath: '/auth/profile',
+    auth: true,
+    rateLimit: 'write',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Update profile',
+      description: 'Change the current user\'s name',
+      tags: ['Profile'],
+      requestBody: jsonBody({
+        type: 'object',
+        properties: {
+          name: { type: 'string', example: 'John Doe' }
+        }
+      }),
+      responses: {
+        200: jsonResponse('Profile updated', messageWith('Profile updated successfully', 'user', schemaRef('User'))),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/profile/addresses',
+    upstream: 'user',
+    upstreamPath: '/auth/profile/addresses',
+    auth: true,
+    rateLimit: 'read',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'List saved addresses',
+      description: 'Return the address book with the default shipping and billing addresses',
+      tags: ['Profile'],
+      responses: {
+        200: jsonResponse('Address book', addressBook),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/profile/addresses',
+    upstream: 'user',
+    upstreamPath: '/auth/profile/addresses',
+    auth: true,
+    rateLimit: 'write',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Add an address',
+      description: 'Save a new address (at most 20). The first address becomes the default shipping and billing address.',
+      tags: ['Profile'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['recipient', 'line1', 'city', 'postcode', 'country'],
+        properties: { ...addressFields, ...defaultFlags }
+      }),
+      responses: {
+        201: jsonResponse('Address added', messageWith('Address added successfully', 'address', schemaRef('Address'))),
+        400: errorResponse('Invalid address or address book full'),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/auth/profile/addresses/:addressId',
+    upstream: 'user',
+    upstreamPath: '/auth/profile/addresses/:addressId',
+    auth: true,
+    rateLimit: 'read',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Get a saved address',
+      tags: ['Profile'],
+      responses: {
+        200: jsonResponse('Address', { type: 'object', properties: { address: schemaRef('Address') } }),
+        404: errorResponse('User or address not found')
+      }
+    }
+  },
+  {
+    method: 'PUT',
+    path: '/api/auth/profile/addresses/:addressId',
+    upstream: 'user',
+    upstreamPath: '/auth/profile/addresses/:addressId',
+    auth: true,
+    rateLimit: 'write',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Update a saved address',
+      description: 'Change some or all fields. The updated address is validated as a whole.',
+      tags: ['Profile'],
+      requestBody: jsonBody({ type: 'object', properties: { ...addressFields, ...defaultFlags } }),
+      responses: {
+        200: jsonResponse('Address updated', messageWith('Address updated successfully', 'address', schemaRef('Address'))),
+        400: errorResponse('Invalid address'),
+        404: errorResponse('User or address not found')
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/auth/profile/addresses/:addressId',
+    upstream: 'user',
+    upstreamPath: '/auth/profile/addresses/:addressId',
+    auth: true,
+    rateLimit: 'write',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Delete a saved address',
+      description: 'Remove an address. If it was a default, that default is left unset.',
+      tags: ['Profile'],
+      responses: {
+        200: jsonResponse('Address deleted', messageWith('Address deleted successfully')),
+        404: errorResponse('User or address not found')
+      }
+    }
+  },
+  {
+    method: 'PUT',
+    path: '/api/auth/profile/addresses/:addressId/default',
+    upstream: 'user',
+    upstreamPath: '/auth/profile/addresses/:addressId/default',
+    auth: true,
+    rateLimit: 'write',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Set a default address',
+      description: 'Make the address the default for shipping or billing',
+      tags: ['Profile'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['type'],
+        properties: { type: { type: 'string', enum: ['shipping', 'billing'] } }
+      }),
+      responses: {
+        200: jsonResponse('Default updated', addressBook),
+        400: errorResponse('Type must be shipping or billing'),
+        404: errorResponse('User or address not found')
+      }
+    }
+  },
+
+  // ----- Users -----
+  {
+    method: 'GET',
+    path: '/api/users',
+    upstream: 'user',
+    upstreamPath: '/users',
+    auth: true,
+    roles: ['admin'],
+    rateLimit: 'read',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'List users',
+      description: 'Page through users, newest first. search matches email or name, case-insensitive.',
+      tags: ['Users'],
+      parameters: [
+        queryParam('search', 'Part of an email address or name'),
+        queryParam('disabled', 'Only disabled (true) or only active (false) accounts', { type: 'boolean' }),
+        ...pageParams(100)
+      ],
+      responses: {
+        200: jsonResponse('List of users', {
+          type: 'object',
+          properties: {
+            users: { type: 'array', items: schemaRef('AdminUser') },
+            pagination: schemaRef('Pagination')
+          }
+        })
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/users/:id',
+    upstream: 'user',
+    upstreamPath: '/users/:id',
+    auth: true,
+    roles: ['admin'],
+    rateLimit: 'read',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Get a user',
+      description: 'Profile and account state of one user, including sign-up date and last login',
+      tags: ['Users'],
+      responses: {
+        200: jsonResponse('User', { type: 'object', properties: { user: schemaRef('AdminUser') } }),
+        400: errorResponse('Invalid user ID'),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/users/:id/disable',
+    upstream: 'user',
+    upstreamPath: '/users/:id/disable',
+    auth: true,
+    roles: ['admin'],
+    rateLimit: 'write',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Disable a user account',
+      description: 'Block login and token refresh, revoke every session and suspend the user\'s API keys. Recorded in the audit log.',
+      tags: ['Users'],
+      requestBody: {
+        required: false,
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { reason: { type: 'string', maxLength: 500 } } }
+          }
+        }
+      },
+      responses: {
+        200: jsonResponse('Account disabled', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'Account disabled' },
+            user: schemaRef('AdminUser'),
+            sessionsRevoked: { type: 'integer', example: 2 }
+          }
+        }),
+        400: errorResponse('Invalid user ID or reason, or disabling your own account'),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/users/:id/enable',
+    upstream: 'user',
+    upstreamPath: '/users/:id/enable',
+    auth: true,
+    roles: ['admin'],
+    rateLimit: 'write',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Enable a user account',
+      description: 'Let a disabled user log in again. Revoked sessions stay revoked.',
+      tags: ['Users'],
+      responses: {
+        200: jsonResponse('Account enabled', messageWith('Account enabled', 'user', schemaRef('AdminUser'))),
+        400: errorResponse('Invalid user ID'),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/users/:id/mfa/reset',
+    upstream: 'user',
+    upstreamPath: '/users/:id/mfa/reset',
+    auth: true,
+    roles: ['admin'],
+    rateLimit: 'write',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Reset a user\'s MFA',
+      description: 'For users who lost their authenticator and recovery codes. Turns MFA off and revokes every session.',
+      tags: ['Users'],
+      responses: {
+        200: jsonResponse('MFA reset', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'MFA reset' },
+            sessionsRevoked: { type: 'integer', example: 2 }
+          }
+        }),
+        400: errorResponse('Invalid user ID'),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+  {
+    method: 'PUT',
+    path: '/api/users/:id/roles',
+    upstream: 'user',
+    upstreamPath: '/users/:id/roles',
+    auth: true,
+    roles: ['admin'],
+    rateLimit: 'write',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Assign user roles',
+      description: 'Replace the roles of a user. Takes effect on the user\'s next login or token refresh.',
+      tags: ['Users'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['roles'],
+        properties: {
+          roles: { type: 'array', items: { type: 'string', enum: ROLES }, example: ['staff'] }
+        }
+      }),
+      responses: {
+        200: jsonResponse('Roles updated', messageWith('Roles updated successfully', 'user', schemaRef('User'))),
+        400: errorResponse('Invalid user ID or roles'),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+
+  {
+    method: 'POST',
+    path: '/api/users/:id/unlock',
+    upstream: 'user',
+    upstreamPath: '/users/:id/unlock',
+    auth: true,
+    roles: ['admin'],
+    rateLimit: 'write',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Unlock a user account',
+      description: 'Lift a failed-login lockout and clear the account\'s failed-attempt history. Recorded in the audit log.',
+      tags: ['Users'],
+      responses: {
+        200: jsonResponse('Unlock result', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'Account unlocked' },
+            wasLocked: { type: 'boolean' }
+          }
+        }),
+        400: errorResponse('Invalid user ID'),
+        404: errorResponse('User not found')
+      }
+    }
+  },
+
+  // ----- API Keys -----
+  {
+    method: 'POST',
+    path: '/api/api-keys',
+    upstream: 'user',
+    upstreamPath: '/api-keys',
+    auth: true,
+    roles: STAFF_ROLES,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Create an API key',
+      description: 'Create a named key for an integration. Requests made with it act as you, limited to its scopes. The key is returned only in this response.',
+      tags: ['API Keys'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['name', 'scopes'],
+        properties: {
+          name: { type: 'string', maxLength: 100, example: 'Warehouse sync' },
+          scopes: { type: 'array', items: { type: 'string', enum: API_KEY_SCOPES }, example: ['orders:read'] },
+          rateLimitPerMinute: { type: 'integer', minimum: 1, default: 600 }
+        }
+      }),
+      responses: {
+        201: jsonResponse('API key created', {
+          type: 'object',
+          properties: {
+            message: { type: 'string', example: 'API key created. Store it now: it will not be shown again.' },
+            key: { type: 'string', description: 'Send as the X-API-Key header' },
+            apiKey: { type: 'object', properties: apiKeyFields }
+          }
+        }),
+        400: errorResponse('Invalid name, scopes or rate limit, or too many keys')
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/api-keys',
+    upstream: 'user',
+    upstreamPath: '/api-keys',
+    auth: true,
+    rateLimit: 'read',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'List API keys',
+      description: 'List your API keys, including revoked ones. Admins can pass userId to list another user\'s keys. lastUsedAt is updated at most once a minute.',
+      tags: ['API Keys'],
+      parameters: [queryParam('userId', 'Owner to list (admins only)')],
+      responses: {
+        200: jsonResponse('API keys', {
+          type: 'object',
+          properties: {
+            apiKeys: { type: 'array', items: { type: 'object', properties: apiKeyFields } }
+          }
+        })
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/api-keys/:id',
+    upstream: 'user',
+    upstreamPath: '/api-keys/:id',
+    auth: true,
+    rateLimit: 'auth',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Revoke an API key',
+      description: 'Revoke one of your keys (admins: any key). It stops working within seconds.',
+      tags: ['API Keys'],
+      responses: {
+        200: jsonResponse('API key revoked', messageWith('API key revoked')),
+        404: errorResponse('API key not found')
+      }
+    }
+  },
+
+  // ----- Products -----
+  {
+    method: 'GET',
+    path: '/api/products',
+    upstream: 'product',
+    upstreamPath: '/products',
+    auth: false,
+    rateLimit: 'read',
+    cacheTtl: 60,
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Get all products',
+      description: 'Retrieve a paginated list of products with optional filtering and search',
+      tags: ['Products'],
+      parameters: [
+        queryParam('category', 'Filter products by category'),
+        queryParam('search', 'Case-insensitive match on name or description'),
+        ...pageParams(100)
+      ],
+      responses: {
+        200: jsonResponse('List of products retrieved successfully', {
+          type: 'object',
+          properties: {
+            products: { type: 'array', items: schemaRef('Product') },
+            pagination: schemaRef('Pagination'),
+            cached: { type: 'boolean', example: false }
+          }
+        })
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/products/category/:category',
+    upstream: 'product',
+    upstreamPath: '/products/category/:category',
+    auth: false,
+    rateLimit: 'read',
+    cacheTtl: 60,
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Get products by category',
+      description: 'Retrieve a paginated list of products in a category',
+      tags: ['Products'],
+      parameters: pageParams(100),
+      responses: {
+        200: jsonResponse('Products in the category retrieved successfully', {
+          type: 'object',
+          properties: {
+            products: { type: 'array', items: schemaRef('Product') },
+            category: { type: 'string' },
+            pagination: schemaRef('Pagination'),
+            cached: { type: 'boolean' }
+          }
+        })
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/products/:id',
+    upstream: 'product',
+    upstreamPath: '/products/:id',
+    auth: false,
+    rateLimit: 'read',
+    cacheTtl: 300,
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Get product by ID',
+      description: 'Retrieve a single product',
+      tags: ['Products'],
+      responses: {
+        200: jsonResponse('Product retrieved successfully', {
+          type: 'object',
+          properties: {
+            product: schemaRef('Product'),
+            cached: { type: 'boolean' }
+          }
+        }),
+        404: errorResponse('Product not found')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/products',
+    upstream: 'product',
+    upstreamPath: '/products',
+    auth: true,
+    roles: STAFF_ROLES,
+    scopes: ['catalog:write'],
+    rateLimit: 'write',
+    invalidates: PRODUCT_LISTS,
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Create a new product',
+      description: 'Create a new product in the catalog',
+      tags: ['Products'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['name', 'description', 'price', 'category'],
+        properties: productFields
+      }),
+      responses: {
+        201: jsonResponse('Product created successfully',
+          messageWith('Product created successfully', 'product', schemaRef('Product'))),
+        400: errorResponse('Invalid input data')
+      }
+    }
+  },
+  {
+    method: 'PUT',
+    path: '/api/products/:id',
+    upstream: 'product',
+    upstreamPath: '/products/:id',
+    auth: true,
+    roles: STAFF_ROLES,
+    scopes: ['catalog:write'],
+    rateLimit: 'write',
+    invalidates: [...PRODUCT_LISTS, '/api/products/:id'],
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Update a product',
+      description: "Update any subset of a product's fields",
+      tags: ['Products'],
+      requestBody: jsonBody({ type: 'object', properties: productFields }),
+      responses: {
+        200: jsonResponse('Product updated successfully',
+          messageWith('Product updated successfully', 'product', schemaRef('Product'))),
+        404: errorResponse('Product not found')
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/products/:id',
+    upstream: 'product',
+    upstreamPath: '/products/:id',
+    auth: true,
+    roles: STAFF_ROLES,
+    scopes: ['catalog:write'],
+    rateLimit: 'write',
+    invalidates: [...PRODUCT_LISTS, '/api/products/:id'],
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Delete a product',
+      description: 'Remove a product from the catalog',
+      tags: ['Products'],
+      responses: {
+        200: jsonResponse('Product deleted successfully', messageWith('Product deleted successfully')),
+        404: errorResponse('Product not found')
+      }
+    }
+  },
+
+  // ----- Categories -----
+  {
+    method: 'GET',
+    path: '/api/categories',
+    upstream: 'product',
+    upstreamPath: '/categories',
+    auth: false,
+    rateLimit: 'read',
+    cacheTtl: 300,
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Get all categories',
+      description: 'Retrieve every category sorted by name',
+      tags: ['Categories'],
+      responses: {
+        200: jsonResponse('Categories retrieved successfully', {
+          type: 'object',
+          properties: {
+            categories: { type: 'array', items: schemaRef('Category') },
+            cached: { type: 'boolean' }
+          }
+        })
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/categories/:id',
+    upstream: 'product',
+    upstreamPath: '/categories/:id',
+    auth: false,
+    rateLimit: 'read',
+    cacheTtl: 300,
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Get category by ID',
+      description: 'Retrieve a single category',
+      tags: ['Categories'],
+      responses: {
+        200: jsonResponse('Category retrieved successfully', {
+          type: 'object',
+          properties: {
+            category: schemaRef('Category'),
+            cached: { type: 'boolean' }
+          }
+        }),
+        404: errorResponse('Category not found')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/categories',
+    upstream: 'product',
+    upstreamPath: '/categories',
+    auth: true,
+    roles: STAFF_ROLES,
+    scopes: ['catalog:write'],
+    rateLimit: 'write',
+    invalidates: CATEGORY_LISTS,
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Create a category',
+      description: 'Create a new product category',
+      tags: ['Categories'],
+      requestBody: jsonBody({ type: 'object', required: ['name'], properties: categoryFields }),
+      responses: {
+        201: jsonResponse('Category created successfully',
+          messageWith('Category created successfully', 'category', schemaRef('Category'))),
+        400: errorResponse('Name missing or category already exists')
+      }
+    }
+  },
+  {
+    method: 'PUT',
+    path: '/api/categories/:id',
+    upstream: 'product',
+    upstreamPath: '/categories/:id',
+    auth: true,
+    roles: STAFF_ROLES,
+    scopes: ['catalog:write'],
+    rateLimit: 'write',
+    invalidates: [...CATEGORY_LISTS, '/api/categories/:id'],
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Update a category',
+      description: 'Rename a category or change its description',
+      tags: ['Categories'],
+      requestBody: jsonBody({ type: 'object', properties: categoryFields }),
+      responses: {
+        200: jsonResponse('Category updated successfully',
+          messageWith('Category updated successfully', 'category', schemaRef('Category'))),
+        400: errorResponse('Category name already exists'),
+        404: errorResponse('Category not found')
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/categories/:id',
+    upstream: 'product',
+    upstreamPath: '/categories/:id',
+    auth: true,
+    roles: STAFF_ROLES,
+    scopes: ['catalog:write'],
+    rateLimit: 'write',
+    invalidates: [...CATEGORY_LISTS, '/api/categories/:id'],
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Delete a category',
+      description: 'Remove a product category',
+      tags: ['Categories'],
+      responses: {
+        200: jsonResponse('Category deleted successfully', messageWith('Category deleted successfully')),
+        404: errorResponse('Category not found')
+      }
+    }
+  },
+
+  // ----- Orders -----
+  {
+    method: 'GET',
+    path: '/api/orders',
+    upstream: 'order',
+    upstreamPath: '/orders',
+    auth: true,
+    roles: STAFF_ROLES,
+    scopes: ['orders:read'],
+    rateLimit: 'read',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Get all orders',
+      description: 'Retrieve a paginated list of orders with optional filtering',
+      tags: ['Orders'],
+      parameters: [
+        queryParam('userId', 'Filter orders by user'),
+        queryParam('status', 'Filter orders by status', orderStatus),
+        ...pageParams(100)
+      ],
+      responses: {
+        200: jsonResponse('List of orders retrieved successfully', {
+          type: 'object',
+          properties: {
+            orders: { type: 'array', items: schemaRef('Order') },
+            pagination: schemaRef('Pagination'),
+            cached: { type: 'boolean' }
+          }
+        })
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/orders/user/:userId',
+    upstream: 'order',
+    upstreamPath: '/orders/user/:userId',
+    auth: true,
+    scopes: ['orders:read'],
+    rateLimit: 'read',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Get orders by user',
+      description: 'Retrieve a paginated list of orders placed by a user. Customers can only list their own orders.',
+      tags: ['Orders'],
+      parameters: pageParams(50),
+      responses: {
+        200: jsonResponse('User orders retrieved successfully', {
+          type: 'object',
+          properties: {
+            orders: { type: 'array', items: schemaRef('Order') },
+            userId: { type: 'string' },
+            pagination: schemaRef('Pagination'),
+            cached: { type: 'boolean' }
+          }
+        }),
+        404: errorResponse('Another user\'s orders, for callers without staff or admin')
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/orders/:id',
+    upstream: 'order',
+    upstreamPath: '/orders/:id',
+    auth: true,
+    scopes: ['orders:read'],
+    rateLimit: 'read',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Get order by ID',
+      description: 'Retrieve a single order. Customers only see their own orders.',
+      tags: ['Orders'],
+      responses: {
+        200: jsonResponse('Order retrieved successfully', {
+          type: 'object',
+          properties: {
+            order: schemaRef('Order'),
+            cached: { type: 'boolean' }
+          }
+        }),
+        404: errorResponse('Order not found')
+      }
+    }
+  },
+  {
+    method: 'GET',
+    path: '/api/orders/:id/items',
+    upstream: 'order',
+    upstreamPath: '/orders/:id/items',
+    auth: true,
+    scopes: ['orders:read'],
+    rateLimit: 'read',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Get order items',
+      description: 'Retrieve the line items of an order. Customers only see their own orders.',
+      tags: ['Orders'],
+      responses: {
+        200: jsonResponse('Order items retrieved successfully', {
+          type: 'object',
+          properties: {
+            items: { type: 'array', items: schemaRef('OrderItem') },
+            cached: { type: 'boolean' }
+          }
+        }),
+        404: errorResponse('Order not found')
+      }
+    }
+  },
+  {
+    method: 'POST',
+    path: '/api/orders',
+    upstream: 'order',
+    upstreamPath: '/orders',
+    auth: true,
+    scopes: ['orders:write'],
+    rateLimit: 'write',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Create a new order',
+      description: 'Validate product stock and prices, then create an order. Saved addresses given by ID are copied onto the order. The order belongs to the caller; staff and admins may pass userId to order for another user. Accounts with an unverified email get a 403 unless ORDERS_REQUIRE_VERIFIED_EMAIL=false.',
+      tags: ['Orders'],
+      requestBody: jsonBody({
+        type: 'object',
+        required: ['items'],
+        properties: {
+          userId: { type: 'string', description: 'Staff and admins only; defaults to the caller' },
+          items: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['productId', 'quantity'],
+              properties: {
+                productId: { type: 'string' },
+                quantity: { type: 'integer', minimum: 1 }
+              }
+            }
+          },
+          shippingAddressId: { type: 'string', description: 'ID of one of the user\'s saved addresses' },
+          billingAddressId: { type: 'string', description: 'ID of one of the user\'s saved addresses' }
+        }
+      }),
+      responses: {
+        201: jsonResponse('Order created successfully',
+          messageWith('Order created successfully', 'order', schemaRef('Order'))),
+        400: errorResponse('Invalid order data, or shipping/billing address not found'),
+        500: errorResponse('Order could not be created')
+      }
+    }
+  },
+  {
+    method: 'PATCH',
+    path: '/api/orders/:id/status',
+    upstream: 'order',
+    upstreamPath: '/orders/:id/status',
+    auth: true,
+    roles: STAFF_ROLES,
+    scopes: ['orders:write'],
+    rateLimit: 'write',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Update order status',
+      description: 'Move an order to a new status',
+      tags: ['Orders'],
+      requestBody: jsonBody({ type: 'object', required: ['status'], properties: { status: orderStatus } }),
+      responses: {
+        200: jsonResponse('Order status updated successfully',
+          messageWith('Order status updated successfully', 'order', schemaRef('Order'))),
+        400: errorResponse('Invalid status'),
+        404: errorResponse('Order not found')
+      }
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/api/orders/:id',
+    upstream: 'order',
+    upstreamPath: '/orders/:id',
+    auth: true,
+    scopes: ['orders:write'],
+    rateLimit: 'write',
+    timeout: DEFAULT_TIMEOUT_MS,
+    docs: {
+      summary: 'Cancel an order',
+      description: 'Cancel an order that is still pending or confirmed. Customers can only cancel their own orders.',
+      tags: ['Orders'],
+      responses: {
+        200: jsonResponse('Order cancelled successfully',
+          messageWith('Order cancelled successfully', 'order', schemaRef('Order'))),
+        400: errorResponse('Order cannot be cancelled in its current status'),
+        404: errorResponse('Order not found')
+      }
+    }
+  }
+];
+
+// ===== Route Table Loading =====
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const validateRoute = (route: RouteDefinition, index: number) => {
+  const where = `Route #${index} (${route.method} ${route.path})`;
+
+  if (!HTTP_METHODS.includes(route.method)) {
+    throw new Error(`${where}: unsupported method`);
+  }
+  if (!route.path?.startsWith('/') || !route.upstreamPath?.startsWith('/')) {
+    throw new Error(`${where}: path and upstreamPath must start with /`);
+  }
+  if (!(route.upstream in upstreams)) {
+    throw new Error(`${where}: unknown upstream "${route.upstream}"`);
+  }
+  if (!RATE_LIMIT_TIERS.includes(route.rateLimit)) {
+    throw new Error(`${where}: unknown rate-limit tier "${route.rateLimit}"`);
+  }
+  if (route.cacheTtl !== undefined && !(route.cacheTtl > 0)) {
+    throw new Error(`${where}: cacheTtl must be a positive number of seconds`);
+  }
+  if (route.roles && (!route.auth || !route.roles.every(role => ROLES.includes(role)))) {
+    throw new Error(`${where}: roles require auth and must be one of ${ROLES.join(', ')}`);
+  }
+  if (route.scopes && (!route.auth || !route.scopes.every(scope => API_KEY_SCOPES.includes(scope)))) {
+    throw new Error(`${where}: scopes require auth and must be one of ${API_KEY_SCOPES.join(', ')}`);
+  }
+  if (!(route.timeout > 0)) {
+    throw new Error(`${where}: timeout must be a positive number of milliseconds`);
+  }
+
+  // Every upstream :param must be supplied by the gateway path
+  const gatewayParams = new Set(route.path.match(/:\w+/g) || []);
+  for (const param of route.upstreamPath.match(/:\w+/g) || []) {
+    if (!gatewayParams.has(param)) {
+      throw new Error(`${where}: upstream parameter ${param} is not in the gateway path`);
+    }
+  }
+};
+
+// Loads the route table once at startup. GATEWAY_ROUTES_FILE may point at a
+// JSON file with the same shape to replace the built-in table.
+export const loadRouteTable = (): RouteDefinition[] => {
+  const file = process.env.GATEWAY_ROUTES_FILE;
+  const routes: RouteDefinition[] = file
+    ? JSON.parse(fs.readFileSync(file, 'utf8'))
+    : defaultRouteTable;
+
+  routes.forEach(validateRoute);
+  return routes;
+};
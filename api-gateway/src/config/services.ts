@@ -0,0 +1,26 @@
+// ===== Upstream Service Registry =====
+export type UpstreamName = 'user' | 'product' | 'order';
+
+export interface UpstreamConfig {
+  name: string;
+  baseUrl: string;
+  unavailableMessage: string;
+}
+
+export const upstreams: Record<UpstreamName, UpstreamConfig> = {
+  user: {
+    name: 'User Service',
+    baseUrl: process.env.USER_SERVICE_URL || 'http://localhost:3001',
+    unavailableMessage: 'Authentication service unavailable'
+  },
+  product: {
+    name: 'Product Service',
+    baseUrl: process.env.PRODUCT_SERVICE_URL || 'http://localhost:3002',
+    unavailableMessage: 'Product service unavailable'
+  },
+  order: {
+    name: 'Order Service',
+    baseUrl: process.env.ORDER_SERVICE_URL || 'http://localhost:3003',
+    unavailableMessage: 'Order service unavailable'
+  }
+};
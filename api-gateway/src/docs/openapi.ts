@@ -0,0 +1,250 @@
+// ===== OpenAPI Document Generated from the Route Table =====
+import swaggerJsdoc from 'swagger-jsdoc';
+import { RouteDefinition, ROLES } from '../config/routes';
+
+const schemas = {
+  User: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      email: { type: 'string', format: 'email' },
+      name: { type: 'string' },
+      roles: { type: 'array', items: { type: 'string', enum: ROLES } },
+      emailVerified: { type: 'boolean' },
+      createdAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  AdminUser: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      email: { type: 'string', format: 'email' },
+      name: { type: 'string' },
+      roles: { type: 'array', items: { type: 'string', enum: ROLES } },
+      emailVerified: { type: 'boolean' },
+      mfaEnabled: { type: 'boolean' },
+      createdAt: { type: 'string', format: 'date-time', description: 'Sign-up date' },
+      lastLoginAt: { type: 'string', format: 'date-time', nullable: true },
+      disabled: { type: 'boolean' },
+      disabledAt: { type: 'string', format: 'date-time', nullable: true },
+      disabledReason: { type: 'string', nullable: true }
+    }
+  },
+  Session: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'Session id (the sid claim of its access tokens)' },
+      device: { type: 'string', example: 'Chrome on macOS' },
+      userAgent: { type: 'string' },
+      ip: { type: 'string', description: 'IP the session was started from' },
+      lastSeenIp: { type: 'string' },
+      createdAt: { type: 'string', format: 'date-time' },
+      lastSeenAt: { type: 'string', format: 'date-time' },
+      current: { type: 'boolean', description: 'The session making the request' }
+    }
+  },
+  Address: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      label: { type: 'string' },
+      recipient: { type: 'string' },
+      line1: { type: 'string' },
+      line2: { type: 'string' },
+      city: { type: 'string' },
+      postcode: { type: 'string' },
+      country: { type: 'string', description: 'ISO 3166-1 alpha-2 code' },
+      phone: { type: 'string' },
+      isDefaultShipping: { type: 'boolean' },
+      isDefaultBilling: { type: 'boolean' }
+    }
+  },
+  Product: {
+    type: 'object',
+    properties: {
+      _id: { type: 'string' },
+      name: { type: 'string' },
+      description: { type: 'string' },
+      price: { type: 'number' },
+      category: { type: 'string' },
+      stock: { type: 'integer' },
+      reservedStock: { type: 'integer', description: 'Held by checkouts in progress; available stock is stock - reservedStock' },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  Category: {
+    type: 'object',
+    properties: {
+      _id: { type: 'string' },
+      name: { type: 'string' },
+      description: { type: 'string' },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  OrderItem: {
+    type: 'object',
+    properties: {
+      productId: { type: 'string' },
+      productName: { type: 'string' },
+      quantity: { type: 'integer' },
+      price: { type: 'number' }
+    }
+  },
+  OrderAddress: {
+    type: 'object',
+    description: 'Copy of a saved address taken when the order was placed',
+    properties: {
+      addressId: { type: 'string' },
+      label: { type: 'string' },
+      recipient: { type: 'string' },
+      line1: { type: 'string' },
+      line2: { type: 'string' },
+      city: { type: 'string' },
+      postcode: { type: 'string' },
+      country: { type: 'string', description: 'ISO 3166-1 alpha-2 code' },
+      phone: { type: 'string' }
+    }
+  },
+  Order: {
+    type: 'object',
+    properties: {
+      _id: { type: 'string' },
+      userId: { type: 'string' },
+      items: {
+        type: 'array',
+        items: { $ref: '#/components/schemas/OrderItem' }
+      },
+      totalAmount: { type: 'number' },
+      status: { type: 'string', enum: ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled'] },
+      shippingAddress: { $ref: '#/components/schemas/OrderAddress' },
+      billingAddress: { $ref: '#/components/schemas/OrderAddress' },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  Pagination: {
+    type: 'object',
+    properties: {
+      page: { type: 'integer' },
+      limit: { type: 'integer' },
+      total: { type: 'integer' },
+      pages: { type: 'integer' }
+    }
+  },
+  Error: {
+    type: 'object',
+    properties: {
+      error: { type: 'string' },
+      timestamp: { type: 'string', format: 'date-time' },
+      status: { type: 'integer' }
+    }
+  }
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+});
+
+// /api/products/:id -> /api/products/{id}
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, '{$1}');
+
+const buildOperation = (route: RouteDefinition) => {
+  const { summary, description, tags, parameters = [], requestBody, responses } = route.docs;
+
+  const pathParams = (route.path.match(/:(\w+)/g) || []).map(param => ({
+    in: 'path',
+    name: param.slice(1),
+    required: true,
+    schema: { type: 'string' }
+  }));
+
+  return {
+    summary,
+    description,
+    tags,
+    security: route.auth ? [{ bearerAuth: [] }, ...(route.scopes ? [{ apiKeyAuth: [] }] : [])] : [],
+    parameters: [...pathParams, ...parameters],
+    ...(requestBody ? { requestBody } : {}),
+    responses: {
+      ...responses,
+      ...(route.auth ? {
+        401: errorResponse(route.scopes
+          ? 'Access token or API key missing, malformed, expired or revoked'
+          : 'Access token missing, malformed, expired or revoked'),
+        403: errorResponse([
+          route.roles ? `Invalid token or missing role (${route.roles.join(' or ')})` : 'Invalid token',
+          route.scopes ? `API key without scope ${route.scopes.join(' or ')}` : 'API keys not accepted'
+        ].join('; '))
+      } : {}),
+      429: responses[429] || errorResponse('Rate limit exceeded'),
+      ...(responses[500] ? {} : { 500: errorResponse('Upstream service unavailable') }),
+      503: {
+        ...errorResponse([
+          responses[503]?.description,
+          route.cacheTtl ? 'Upstream circuit open and no stale copy cached' : 'Upstream circuit open'
+        ].filter(Boolean).join('; or ')),
+        headers: {
+          'Retry-After': { description: 'Seconds until the circuit is retried', schema: { type: 'integer' } }
+        }
+      }
+    },
+    'x-upstream': route.upstream,
+    'x-rate-limit-tier': route.rateLimit,
+    ...(route.roles ? { 'x-roles': route.roles } : {}),
+    ...(route.scopes ? { 'x-api-key-scopes': route.scopes } : {}),
+    ...(route.cacheTtl ? { 'x-cache-ttl': route.cacheTtl } : {})
+  };
+};
+
+export const buildOpenApiSpec = (routes: RouteDefinition[], port: string | number) => {
+  // Gateway-local endpoints (health, docs) are still documented with JSDoc in app.ts
+  const spec: any = swaggerJsdoc({
+    definition: {
+      openapi: '3.0.0',
+      info: {
+        title: 'E-commerce Microservices API',
+        version: '1.0.0',
+        description: 'A production-ready e-commerce backend system built with microservices architecture',
+        contact: {
+          name: 'API Support',
+          email: 'support@ecommerce-api.com'
+        }
+      },
+      servers: [
+        {
+          url: `http://localhost:${port}`,
+          description: 'Development server'
+        }
+      ],
+      components: {
+        securitySchemes: {
+          bearerAuth: {
+            type: 'http',
+            scheme: 'bearer',
+            bearerFormat: 'JWT (RS256)'
+          },
+          // Accepted on routes with scopes, in place of a bearer token
+          apiKeyAuth: {
+            type: 'apiKey',
+            in: 'header',
+            name: 'X-API-Key'
+          }
+        },
+        schemas
+      }
+    },
+    apis: ['./src/app.ts']
+  });
+
+  spec.paths = spec.paths || {};
+  for (const route of routes) {
+    const path = toOpenApiPath(route.path);
+    spec.paths[path] = spec.paths[path] || {};
+    spec.paths[path][route.method.toLowerCase()] = buildOperation(route);
+  }
+
+  return spec;
+};
@@ -0,0 +1,153 @@
+// ===== Gateway Liveness, Readiness & Deep Health =====
+// Liveness only says the process is up. Readiness runs dependency checks:
+// a failing critical check returns 503, a failing non-critical check reports
+// the service as degraded but still ready.
+import { Request, Response } from 'express';
+import axios from 'axios';
+import redis from '../cache/redis';
+import { UpstreamName, upstreams } from '../config/services';
+import { getInternalApiToken } from '../config/internalApi';
+import { getCircuitStatus } from '../services/circuitBreakers';
+import { getJwksStatus } from '../services/jwks';
+import { getRequestId } from '../logging/logger';
+
+const CHECK_TIMEOUT_MS = 2000;
+
+export interface HealthCheck {
+  name: string;
+  critical: boolean;
+  run: () => Promise<any>; // Resolves with optional details, throws when unhealthy
+}
+
+export interface CheckResult {
+  status: 'up' | 'down';
+  critical: boolean;
+  latencyMs: number;
+  details?: any;
+  error?: string;
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+export const redisCheck: HealthCheck = {
+  name: 'redis',
+  critical: false, // Response cache and rate limiting fail open
+  run: async () => {
+    const reply = await redis.ping();
+    return { reply, status: redis.status };
+  }
+};
+
+export const circuitCheck = (name: UpstreamName): HealthCheck => ({
+  name: `${name}Circuit`,
+  critical: false, // Cached reads are still served while a circuit is open
+  run: async () => {
+    const circuit = getCircuitStatus()[name];
+    if (circuit.state === 'open') {
+      throw new Error('Circuit open');
+    }
+    return circuit;
+  }
+});
+
+export const jwksCheck: HealthCheck = {
+  name: 'jwks',
+  critical: false, // The last fetched keys stay in use while user-service is away
+  run: async () => {
+    const status = getJwksStatus();
+    if (status.kids.length === 0) {
+      throw new Error('No token verification keys');
+    }
+    return status;
+  }
+};
+
+const runCheck = async (check: HealthCheck): Promise<CheckResult> => {
+  const start = Date.now();
+  try {
+    const details = await withTimeout(check.run(), CHECK_TIMEOUT_MS);
+    return { status: 'up', critical: check.critical, latencyMs: Date.now() - start, details };
+  } catch (error: any) {
+    return { status: 'down', critical: check.critical, latencyMs: Date.now() - start, error: error.message };
+  }
+};
+
+export const livenessHandler = (service: string) => (req: Request, res: Response) => {
+  res.json({
+    status: 'OK',
+    service,
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+    memory: process.memoryUsage()
+  });
+};
+
+export const readinessHandler = (service: string, checks: HealthCheck[]) => async (req: Request, res: Response) => {
+  const results = await Promise.all(checks.map(runCheck));
+  const failed = results.filter(result => result.status === 'down');
+  const status = failed.some(result => result.critical)
+    ? 'not_ready'
+    : failed.length > 0 ? 'degraded' : 'ready';
+
+  res.status(status === 'not_ready' ? 503 : 200).json({
+    status,
+    service,
+    timestamp: new Date().toISOString(),
+    checks: Object.fromEntries(checks.map((check, i) => [check.name, results[i]]))
+  });
+};
+
+// ===== Aggregate Downstream Readiness =====
+// Calls every upstream's /health/ready in parallel. Anyone gets each
+// service's status and latency; the upstream's checks and error messages
+// describe the internals, so they need the internal API token.
+export const deepHealthHandler = async (req: Request, res: Response) => {
+  const detailed = req.headers['x-internal-token'] === getInternalApiToken();
+
+  const entries = await Promise.all(Object.entries(upstreams).map(async ([key, upstream]) => {
+    const start = Date.now();
+    try {
+      const response = await axios.get(`${upstream.baseUrl}/health/ready`, {
+        timeout: CHECK_TIMEOUT_MS,
+        headers: { 'X-Request-Id': getRequestId() },
+        validateStatus: () => true // 503 bodies still carry the failing checks
+      });
+      return [key, {
+        service: upstream.name,
+        status: response.data?.status || (response.status === 200 ? 'ready' : 'not_ready'),
+        httpStatus: response.status,
+        latencyMs: Date.now() - start,
+        checks: response.data?.checks
+      }] as const;
+    } catch (error: any) {
+      return [key, {
+        service: upstream.name,
+        status: 'unreachable',
+        latencyMs: Date.now() - start,
+        error: error.message
+      }] as const;
+    }
+  }));
+
+  const services = Object.fromEntries(entries.map(([key, result]) =>
+    [key, detailed ? result : { service: result.service, status: result.status, latencyMs: result.latencyMs }]
+  ));
+  const statuses = entries.map(([, result]) => result.status);
+  const status = statuses.every(s => s === 'ready')
+    ? 'ready'
+    : statuses.some(s => s === 'not_ready' || s === 'unreachable') ? 'not_ready' : 'degraded';
+
+  res.status(status === 'not_ready' ? 503 : 200).json({
+    status,
+    service: 'API Gateway',
+    timestamp: new Date().toISOString(),
+    services
+  });
+};
@@ -14,7 +14,8 @@ interface MetricsStore {
   counters: Map<string, number>;
   gauges: Map<string, number>;
   histograms: Map<string, number[]>;
-  labeledCounters: Map<string, MetricValue[]>;
+  labeledCounters: Map<string, Map<string, MetricValue>>;   // Keyed by serialized labels
+  labeledGauges: Map<string, MetricValue[]>;
 }
 
 const metrics: MetricsStore = {
@@ -22,6 +23,7 @@ const metrics: MetricsStore = {
   gauges: new Map(),
   histograms: new Map(),
   labeledCounters: new Map(),
+  labeledGauges: new Map(),
 };
 
 // ===== Service Info =====
@@ -41,20 +43,21 @@ export function incrementCounter(name: string, value = 1) {
 }
 
 export function incrementLabeledCounter(name: string, labels: Record<string, string>, value = 1) {
-  const key = name;
-  const existing = metrics.labeledCounters.get(key) || [];
+  let series = metrics.labeledCounters.get(name);
+  if (!series) {
+    series = new Map();
+    metrics.labeledCounters.set(name, series);
+  }
   
   // Find existing entry with same labels
   const labelKey = JSON.stringify(labels);
-  const idx = existing.findIndex(e => JSON.stringify(e.labels) === labelKey);
+  const existing = series.get(labelKey);
   
-  if (idx >= 0) {
-    existing[idx].value += value;
+  if (existing) {
+    existing.value += value;
   } else {
-    existing.push({ value, labels, timestamp: Date.now() });
+    series.set(labelKey, { value, labels, timestamp: Date.now() });
   }
-  
-  metrics.labeledCounters.set(key, existing);
 }
 
 // ===== Gauge Operations =====
@@ -72,6 +75,21 @@ export function decrementGauge(name: string, value = 1) {
   metrics.gauges.set(name, current - value);
 }
 
+export function setLabeledGauge(name: string, labels: Record<string, string>, value: number) {
+  const existing = metrics.labeledGauges.get(name) || [];
+  const labelKey = JSON.stringify(labels);
+  const idx = existing.findIndex(e => JSON.stringify(e.labels) === labelKey);
+  
+  if (idx >= 0) {
+    existing[idx].value = value;
+    existing[idx].timestamp = Date.now();
+  } else {
+    existing.push({ value, labels, timestamp: Date.now() });
+  }
+  
+  metrics.labeledGauges.set(name, existing);
+}
+
 // ===== Histogram Operations =====
 export function observeHistogram(name: string, value: number) {
   const existing = metrics.histograms.get(name) || [];
@@ -113,7 +131,9 @@ export function metricsMiddleware(req: Request, res: Response, next: NextFunctio
   
   res.on('finish', () => {
     const duration = Date.now() - startTime;
-    const path = req.route?.path || req.path;
+    // Label by route pattern (e.g. /products/:id) to keep cardinality bounded;
+    // unrouted requests (404s, scans) share one label
+    const path = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
     const method = req.method;
     const status = res.statusCode;
     const statusClass = `${Math.floor(status / 100)}xx`;
@@ -191,7 +211,7 @@ export function generatePrometheusMetrics(): string {
     lines.push(`# HELP ${name} Counter metric with labels`);
     lines.push(`# TYPE ${name} counter`);
     
-    for (const { value, labels } of values) {
+    for (const { value, labels } of values.values()) {
       const labelStr = Object.entries(labels)
         .map(([k, v]) => `${k}="${v}"`)
         .join(',');
@@ -206,6 +226,19 @@ export function generatePrometheusMetrics(): string {
     lines.push(`${name}{service="${serviceName}"} ${value}`);
   }
   
+  // ===== Labeled Gauges =====
+  for (const [name, values] of metrics.labeledGauges) {
+    lines.push(`# HELP ${name} Gauge metric with labels`);
+    lines.push(`# TYPE ${name} gauge`);
+    
+    for (const { value, labels } of values) {
+      const labelStr = Object.entries(labels)
+        .map(([k, v]) => `${k}="${v}"`)
+        .join(',');
+      lines.push(`${name}{service="${serviceName}",${labelStr}} ${value}`);
+    }
+  }
+  
   // ===== Histograms =====
   const histogramBuckets = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
   
@@ -250,6 +283,11 @@ export function metricsEndpoint(req: Request, res: Response) {
   res.send(generatePrometheusMetrics());
 }
 
+// ===== JSON Summary Endpoint Handler =====
+export function metricsSummaryEndpoint(req: Request, res: Response) {
+  res.json(getMetricsSummary());
+}
+
 // ===== Get Metrics Summary (JSON format) =====
 export function getMetricsSummary() {
   const httpDurations = metrics.histograms.get('http_request_duration_ms') || [];
@@ -260,10 +298,10 @@ export function getMetricsSummary() {
     uptime: (Date.now() - startTime) / 1000,
     memory: process.memoryUsage(),
     requests: {
-      total: Array.from(metrics.labeledCounters.get('http_requests_total') || [])
+      total: Array.from(metrics.labeledCounters.get('http_requests_total')?.values() || [])
         .reduce((sum, m) => sum + m.value, 0),
       inFlight: metrics.gauges.get('http_requests_in_flight') || 0,
-      errors: Array.from(metrics.labeledCounters.get('http_errors_total') || [])
+      errors: Array.from(metrics.labeledCounters.get('http_errors_total')?.values() || [])
         .reduce((sum, m) => sum + m.value, 0),
     },
     latency: {
@@ -275,5 +313,11 @@ export function getMetricsSummary() {
     },
     counters: Object.fromEntries(metrics.counters),
     gauges: Object.fromEntries(metrics.gauges),
+    labeledGauges: Object.fromEntries(
+      Array.from(metrics.labeledGauges).map(([name, values]) => [
+        name,
+        values.map(({ labels, value }) => ({ ...labels, value }))
+      ])
+    ),
   };
 }
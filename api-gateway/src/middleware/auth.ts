@@ -0,0 +1,139 @@
+// ===== Gateway Auth Middleware =====
+// Bearer tokens and API keys are verified once here. Downstream services
+// receive the gateway-asserted identity in X-User-Id / X-User-Roles /
+// X-User-Email-Verified (plus X-Api-Key-Id for key requests) instead of
+// re-verifying.
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { isSessionRevoked } from '../services/revocation';
+import { getVerificationKey, JWT_ALGORITHM } from '../services/jwks';
+import { verifyApiKey, ApiKeyPrincipal } from '../services/apiKeys';
+import { logger } from '../logging/logger';
+
+export const IDENTITY_HEADERS = {
+  USER_ID: 'x-user-id',
+  USER_ROLES: 'x-user-roles',
+  EMAIL_VERIFIED: 'x-user-email-verified',
+  API_KEY_ID: 'x-api-key-id'
+};
+
+export const API_KEY_HEADER = 'x-api-key';
+
+interface TokenPayload {
+  userId: string;
+  sid?: string;
+  roles?: string[];
+  emailVerified?: boolean;
+}
+
+const rejectAuth = (res: Response, status: 401 | 403 | 503, error: string) => {
+  res.status(status).json({ error, status, timestamp: new Date().toISOString() });
+};
+
+// Identity headers may only be set by the gateway - drop any client-supplied copies
+export const stripIdentityHeaders = (req: Request, res: Response, next: NextFunction) => {
+  for (const header of Object.values(IDENTITY_HEADERS)) {
+    delete req.headers[header];
+  }
+  next();
+};
+
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.headers['authorization'];
+
+  if (!authHeader) {
+    return rejectAuth(res, 401, 'Access token required');
+  }
+
+  const [scheme, token] = authHeader.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return rejectAuth(res, 401, 'Authorization header must be: Bearer <token>');
+  }
+
+  let decoded: TokenPayload;
+  try {
+    const key = await getVerificationKey(jwt.decode(token, { complete: true })?.header.kid);
+    if (!key) {
+      return rejectAuth(res, 403, 'Invalid token');
+    }
+    decoded = jwt.verify(token, key, { algorithms: [JWT_ALGORITHM] }) as TokenPayload;
+  } catch (err) {
+    if (err instanceof jwt.TokenExpiredError) {
+      return rejectAuth(res, 401, 'Token expired');
+    }
+    return rejectAuth(res, 403, 'Invalid token');
+  }
+
+  // Logged-out sessions are rejected even though the signature still checks out
+  if (!decoded.sid || await isSessionRevoked(decoded.sid)) {
+    return rejectAuth(res, 401, 'Token revoked');
+  }
+
+  (req as any).userId = decoded.userId;
+  (req as any).userRoles = decoded.roles || [];
+  (req as any).emailVerified = !!decoded.emailVerified;
+  (req as any).sessionId = decoded.sid;
+  next();
+};
+
+// API keys work only on routes that list scopes, and only if the key holds
+// one of them. The key's owner must still pass any role check.
+const authenticateApiKey = (scopes: string[] | undefined) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!scopes) {
+      return rejectAuth(res, 403, 'API keys cannot be used for this endpoint');
+    }
+
+    let principal: ApiKeyPrincipal | null;
+    try {
+      principal = await verifyApiKey(String(req.headers[API_KEY_HEADER]));
+    } catch (error: any) {
+      logger.error('API key verification error', { error: error.message });
+      return rejectAuth(res, 503, 'Authentication service unavailable');
+    }
+
+    if (!principal) {
+      return rejectAuth(res, 401, 'Invalid or revoked API key');
+    }
+    if (!principal.scopes.some(scope => scopes.includes(scope))) {
+      return rejectAuth(res, 403, `API key lacks the required scope (${scopes.join(' or ')})`);
+    }
+
+    (req as any).userId = principal.userId;
+    (req as any).userRoles = principal.roles;
+    (req as any).emailVerified = principal.emailVerified;
+    (req as any).apiKey = principal;
+    next();
+  };
+
+// Bearer token, or an X-API-Key when the route accepts API keys
+export const authenticate = (scopes?: string[]) => {
+  const apiKeyAuth = authenticateApiKey(scopes);
+  return (req: Request, res: Response, next: NextFunction) =>
+    req.headers[API_KEY_HEADER] ? apiKeyAuth(req, res, next) : authenticateToken(req, res, next);
+};
+
+// Allow the request only if the token carries at least one of the given roles.
+// Runs after authenticateToken.
+export const requireRoles = (roles: string[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const userRoles: string[] = (req as any).userRoles || [];
+    if (!userRoles.some(role => roles.includes(role))) {
+      return rejectAuth(res, 403, 'Insufficient permissions');
+    }
+    next();
+  };
+
+// Headers to forward downstream for an authenticated request
+export const identityHeaders = (req: Request): Record<string, string> => {
+  const userId = (req as any).userId;
+  if (!userId) return {};
+
+  const apiKey: ApiKeyPrincipal | undefined = (req as any).apiKey;
+  return {
+    [IDENTITY_HEADERS.USER_ID]: String(userId),
+    [IDENTITY_HEADERS.USER_ROLES]: ((req as any).userRoles || []).join(','),
+    [IDENTITY_HEADERS.EMAIL_VERIFIED]: String(!!(req as any).emailVerified),
+    ...(apiKey ? { [IDENTITY_HEADERS.API_KEY_ID]: apiKey.keyId } : {})
+  };
+};
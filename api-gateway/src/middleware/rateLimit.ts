@@ -0,0 +1,91 @@
+// ===== Distributed Rate Limiting =====
+// Counters live in Redis so every gateway replica behind nginx shares them.
+import { Request, RequestHandler } from 'express';
+import rateLimit from 'express-rate-limit';
+import { RedisStore } from 'rate-limit-redis';
+import redis from '../cache/redis';
+import { RateLimitTier, RATE_LIMIT_TIERS, RATE_LIMIT_WINDOW_MS, AUTH_FAILURE_LIMIT, getRateLimit } from '../config/rateLimits';
+
+const messages: Record<RateLimitTier, string> = {
+  read: 'Too many requests, please try again later.',
+  write: 'Too many write requests, please try again later.',
+  auth: 'Too many authentication attempts, please try again later.'
+};
+
+// API keys are counted per key, other authenticated clients per user,
+// everyone else per IP
+export const rateLimitKey = (req: Request) => {
+  const apiKey = (req as any).apiKey;
+  if (apiKey) return `apikey:${apiKey.keyId}`;
+  const userId = (req as any).userId;
+  if (userId) return `user:${userId}`;
+  return `ip:${req.ip}`;
+};
+
+const createStore = (name: string) => {
+  const store = new RedisStore({
+    sendCommand: (command: string, ...args: string[]) => redis.call(command, ...args) as any,
+    prefix: `gateway:ratelimit:${name}:`
+  });
+
+  // The store loads its Lua scripts eagerly and reloads them on first use if
+  // that failed, so a Redis outage at startup must not become an unhandled rejection
+  store.incrementScriptSha.catch(() => undefined);
+  store.getScriptSha.catch(() => undefined);
+  return store;
+};
+
+const createLimiter = (tier: RateLimitTier): RequestHandler => rateLimit({
+  windowMs: RATE_LIMIT_WINDOW_MS,
+  limit: () => getRateLimit(tier),
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: rateLimitKey,
+  // Fail open if Redis is unavailable rather than rejecting all traffic
+  passOnStoreError: true,
+  store: createStore(tier),
+  message: {
+    error: messages[tier],
+    retryAfter: `${Math.ceil(RATE_LIMIT_WINDOW_MS / 1000)} seconds`
+  }
+});
+
+export const rateLimiters = Object.fromEntries(
+  RATE_LIMIT_TIERS.map(tier => [tier, createLimiter(tier)])
+) as Record<RateLimitTier, RequestHandler>;
+
+// Runs before authentication, so it can only count per IP. Only rejected
+// credentials count: otherwise guessed tokens would never reach a limiter.
+export const authFailureRateLimiter: RequestHandler = rateLimit({
+  windowMs: RATE_LIMIT_WINDOW_MS,
+  limit: AUTH_FAILURE_LIMIT,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => `ip:${req.ip}`,
+  skipSuccessfulRequests: true,
+  requestWasSuccessful: (req: Request, res) => res.statusCode !== 401,
+  passOnStoreError: true,
+  store: createStore('authfail'),
+  message: {
+    error: 'Too many failed authentication attempts, please try again later.',
+    retryAfter: `${Math.ceil(RATE_LIMIT_WINDOW_MS / 1000)} seconds`
+  }
+});
+
+// Each API key also has its own per-minute limit, set when the key is created
+const API_KEY_WINDOW_MS = 60000;
+
+export const apiKeyRateLimiter: RequestHandler = rateLimit({
+  windowMs: API_KEY_WINDOW_MS,
+  limit: (req: Request) => (req as any).apiKey.rateLimitPerMinute,
+  skip: (req: Request) => !(req as any).apiKey,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => (req as any).apiKey.keyId,
+  passOnStoreError: true,
+  store: createStore('apikey'),
+  message: {
+    error: 'API key rate limit exceeded, please try again later.',
+    retryAfter: `${API_KEY_WINDOW_MS / 1000} seconds`
+  }
+});
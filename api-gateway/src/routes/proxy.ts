@@ -0,0 +1,113 @@
+// ===== Route Table -> Express Handlers =====
+import { Application, Request, Response, RequestHandler } from 'express';
+import { RouteDefinition } from '../config/routes';
+import { upstreams } from '../config/services';
+import { getInternalApiToken } from '../config/internalApi';
+import { authenticate, requireRoles, identityHeaders } from '../middleware/auth';
+import { rateLimiters, apiKeyRateLimiter, authFailureRateLimiter } from '../middleware/rateLimit';
+import { breakers, isBreakerOpenError, retryAfterSeconds } from '../services/circuitBreakers';
+import { responseCache, responseCacheKey, sendCachedResponse, sendStaleResponse } from '../cache/responseCache';
+import { logger } from '../logging/logger';
+
+const METHODS_WITH_BODY = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Fill :params in the upstream path from the matched gateway route
+const buildUpstreamPath = (route: RouteDefinition, params: Record<string, string>) =>
+  route.upstreamPath.replace(/:(\w+)/g, (_, name) => encodeURIComponent(params[name]));
+
+// Only public GETs are shared through the gateway cache
+const isCacheable = (route: RouteDefinition) =>
+  route.method === 'GET' && !route.auth && !!route.cacheTtl;
+
+// Upstream's breaker is open: fall back to the last good response for
+// cacheable GETs, otherwise fail fast and tell the client when to retry
+const handleOpenCircuit = async (route: RouteDefinition, res: Response, cacheKey: string) => {
+  if (cacheKey) {
+    const stale = await responseCache.getStale(cacheKey);
+    if (stale) {
+      return sendStaleResponse(res, stale);
+    }
+  }
+
+  const retryAfter = retryAfterSeconds(route.upstream);
+  res.set({ 'Retry-After': String(retryAfter), 'Cache-Control': 'no-store' });
+  res.status(503).json({
+    error: upstreams[route.upstream].unavailableMessage,
+    retryAfter
+  });
+};
+
+const createProxyHandler = (route: RouteDefinition): RequestHandler => {
+  const upstream = upstreams[route.upstream];
+  const cacheable = isCacheable(route);
+
+  return async (req: Request, res: Response) => {
+    const params = req.params as Record<string, string>;
+    const cacheKey = cacheable ? responseCacheKey(req) : '';
+
+    try {
+      if (cacheable) {
+        const cached = await responseCache.get(cacheKey);
+        if (cached) {
+          return sendCachedResponse(req, res, cached, route.cacheTtl!, 'HIT');
+        }
+      }
+
+      const hasBody = METHODS_WITH_BODY.includes(route.method);
+      const response = await breakers[route.upstream].fire(`${upstream.baseUrl}${buildUpstreamPath(route, params)}`, {
+        method: route.method,
+        params: req.query,
+        data: hasBody ? req.body : undefined,
+        timeout: route.timeout,
+        headers: {
+          ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+          ...(req.headers.authorization ? { Authorization: req.headers.authorization } : {}),
+          // Client IP as resolved through nginx, for per-IP checks upstream.
+          // Upstreams only believe it alongside the internal token.
+          ...(req.ip ? { 'X-Client-Ip': req.ip, 'X-Internal-Token': getInternalApiToken() } : {}),
+          ...identityHeaders(req)
+        }
+      });
+
+      if (cacheable && response.status === 200) {
+        const entry = await responseCache.set(cacheKey, response.status, response.data, route.cacheTtl!);
+        return sendCachedResponse(req, res, entry, route.cacheTtl!, 'MISS');
+      }
+
+      if (route.invalidates && response.status < 300) {
+        await responseCache.invalidate(route.invalidates, params);
+      }
+
+      res.set('Cache-Control', 'no-store');
+      res.status(response.status).json(response.data);
+    } catch (error: any) {
+      if (isBreakerOpenError(error)) {
+        return handleOpenCircuit(route, res, cacheKey);
+      }
+      if (!error.response) {
+        logger.error(`${upstream.name} error on ${route.method} ${route.path}`, { error: error.message });
+      }
+      res.status(error.response?.status || 500).json(
+        error.response?.data || { error: upstream.unavailableMessage }
+      );
+    }
+  };
+};
+
+export const registerRoutes = (app: Application, routes: RouteDefinition[]) => {
+  for (const route of routes) {
+    // Failed credentials are counted per IP before authenticating; the tier
+    // limiter runs after it so it can count per user instead of per IP
+    const middleware: RequestHandler[] = route.auth ? [authFailureRateLimiter, authenticate(route.scopes)] : [];
+    if (route.roles) {
+      middleware.push(requireRoles(route.roles));
+    }
+    if (route.scopes) {
+      middleware.push(apiKeyRateLimiter);
+    }
+    middleware.push(rateLimiters[route.rateLimit]);
+
+    const method = route.method.toLowerCase() as 'get' | 'post' | 'put' | 'patch' | 'delete';
+    app[method](route.path, ...middleware, createProxyHandler(route));
+  }
+};
@@ -0,0 +1,56 @@
+// ===== API Key Verification =====
+// Keys are resolved by user-service, which owns them. A verified key is
+// cached here for a minute so integrations don't add a user-service call to
+// every request; revocation markers cover keys revoked within that minute.
+import crypto from 'crypto';
+import { upstreams } from '../config/services';
+import { getInternalApiToken } from '../config/internalApi';
+import { cache } from '../cache/redis';
+import { breakers } from './circuitBreakers';
+import { API_KEY_VERIFY_CACHE_SECONDS, isApiKeyRevoked } from './revocation';
+
+const VERIFY_TIMEOUT_MS = 5000;
+
+export interface ApiKeyPrincipal {
+  keyId: string;
+  userId: string;
+  roles: string[];
+  emailVerified: boolean;
+  scopes: string[];
+  rateLimitPerMinute: number;
+}
+
+// Cache by hash so plaintext keys never reach Redis
+const verifiedKeyCacheKey = (key: string) =>
+  `gateway:apikey:${crypto.createHash('sha256').update(key).digest('hex')}`;
+
+// Returns null for unknown or revoked keys. Throws if user-service can't answer.
+export const verifyApiKey = async (key: string): Promise<ApiKeyPrincipal | null> => {
+  const cacheKey = verifiedKeyCacheKey(key);
+
+  let principal: ApiKeyPrincipal | null = await cache.get(cacheKey);
+  if (!principal) {
+    try {
+      const response = await breakers.user.fire(`${upstreams.user.baseUrl}/internal/api-keys/verify`, {
+        method: 'POST',
+        data: { key },
+        timeout: VERIFY_TIMEOUT_MS,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Internal-Token': getInternalApiToken()
+        }
+      });
+      principal = response.data.principal as ApiKeyPrincipal;
+    } catch (error: any) {
+      if (error.response?.status === 401) return null;
+      throw error;
+    }
+    await cache.set(cacheKey, principal, API_KEY_VERIFY_CACHE_SECONDS);
+  }
+
+  if (await isApiKeyRevoked(principal.keyId)) {
+    await cache.del(cacheKey);
+    return null;
+  }
+  return principal;
+};
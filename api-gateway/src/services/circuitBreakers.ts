@@ -0,0 +1,87 @@
+// ===== Per-Upstream Circuit Breakers =====
+// One breaker per upstream service. While a breaker is open the gateway stops
+// calling that service and fails fast instead of retrying into an outage.
+import CircuitBreaker from 'opossum';
+import { UpstreamName, upstreams } from '../config/services';
+import { makeRequest } from './upstream';
+import { setLabeledGauge, incrementLabeledCounter } from '../metrics/prometheus';
+import { logger } from '../logging/logger';
+
+const RESET_TIMEOUT_MS = Number(process.env.CIRCUIT_RESET_TIMEOUT_MS) || 30000;
+
+const circuitBreakerOptions = {
+  timeout: false as const,       // Per-route timeouts are enforced by makeRequest
+  errorThresholdPercentage: 50,  // When 50% of requests fail, open circuit
+  resetTimeout: RESET_TIMEOUT_MS, // After 30s, let a trial request through
+  volumeThreshold: 10,           // Minimum 10 requests before tripping
+  // 4xx answers mean the upstream is healthy; only 5xx and network errors count
+  errorFilter: (error: any) => !!error.response && error.response.status < 500
+};
+
+// Gauge values for circuit_breaker_state
+const STATE_VALUES = { closed: 0, halfOpen: 0.5, open: 1 };
+
+type BreakerState = keyof typeof STATE_VALUES;
+
+const openedAt: Partial<Record<UpstreamName, number>> = {};
+
+const recordState = (name: UpstreamName, state: BreakerState) => {
+  setLabeledGauge('circuit_breaker_state', { upstream: name }, STATE_VALUES[state]);
+  incrementLabeledCounter('circuit_breaker_transitions_total', { upstream: name, state });
+};
+
+const createBreaker = (name: UpstreamName) => {
+  const breaker = new CircuitBreaker(
+    (url: string, options: any) => makeRequest(url, options),
+    { ...circuitBreakerOptions, name }
+  );
+  const label = upstreams[name].name;
+
+  breaker.on('open', () => {
+    openedAt[name] = Date.now();
+    recordState(name, 'open');
+    logger.warn(`${label} circuit OPENED`, { upstream: name });
+  });
+  breaker.on('halfOpen', () => {
+    recordState(name, 'halfOpen');
+    logger.info(`${label} circuit HALF-OPEN`, { upstream: name });
+  });
+  breaker.on('close', () => {
+    delete openedAt[name];
+    recordState(name, 'closed');
+    logger.info(`${label} circuit CLOSED`, { upstream: name });
+  });
+  breaker.on('reject', () => {
+    incrementLabeledCounter('circuit_breaker_rejections_total', { upstream: name });
+  });
+
+  setLabeledGauge('circuit_breaker_state', { upstream: name }, STATE_VALUES.closed);
+  return breaker;
+};
+
+export const breakers: Record<UpstreamName, CircuitBreaker<[string, any], any>> = {
+  user: createBreaker('user'),
+  product: createBreaker('product'),
+  order: createBreaker('order')
+};
+
+// Breaker rejections carry this code instead of an upstream response
+export const isBreakerOpenError = (error: any) => error?.code === 'EOPENBREAKER';
+
+// Seconds until the breaker lets a trial request through
+export const retryAfterSeconds = (name: UpstreamName) => {
+  const since = openedAt[name];
+  if (since === undefined) return Math.ceil(RESET_TIMEOUT_MS / 1000);
+  return Math.max(1, Math.ceil((since + RESET_TIMEOUT_MS - Date.now()) / 1000));
+};
+
+export const getCircuitStatus = () =>
+  Object.fromEntries(
+    (Object.keys(breakers) as UpstreamName[]).map(name => {
+      const breaker = breakers[name];
+      return [name, {
+        state: breaker.opened ? 'open' : breaker.halfOpen ? 'half-open' : 'closed',
+        stats: breaker.status.stats
+      }];
+    })
+  );
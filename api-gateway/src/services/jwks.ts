@@ -0,0 +1,88 @@
+// ===== Token Verification Keys (JWKS) =====
+// user-service signs access tokens with RS256; the gateway only ever holds
+// the public keys, fetched from user-service's JWKS and cached in memory.
+// A token with an unknown kid (a freshly rotated key) triggers a refetch,
+// at most once per MIN_REFETCH_INTERVAL_MS. If a refetch fails the last
+// known keys stay in use.
+import crypto, { KeyObject } from 'crypto';
+import { upstreams } from '../config/services';
+import { makeRequest } from './upstream';
+import { logger } from '../logging/logger';
+
+export const JWT_ALGORITHM = 'RS256';
+
+const JWKS_URL = process.env.JWKS_URL || `${upstreams.user.baseUrl}/.well-known/jwks.json`;
+const JWKS_CACHE_TTL_MS = (Number(process.env.JWKS_CACHE_TTL_SECONDS) || 300) * 1000;  // 5 minutes
+const MIN_REFETCH_INTERVAL_MS = 30000;
+const FETCH_TIMEOUT_MS = 5000;
+const STARTUP_ATTEMPTS = 10;
+const STARTUP_RETRY_MS = 3000;
+
+let keys = new Map<string, KeyObject>();
+let fetchedAt = 0;
+let attemptedAt = 0;
+let refreshing: Promise<void> | null = null;
+
+const fetchJwks = async () => {
+  const response = await makeRequest(JWKS_URL, { method: 'GET', timeout: FETCH_TIMEOUT_MS });
+
+  const next = new Map<string, KeyObject>();
+  for (const jwk of response.data?.keys || []) {
+    if (jwk.kty === 'RSA' && jwk.kid && (!jwk.use || jwk.use === 'sig')) {
+      next.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+  }
+  if (next.size === 0) {
+    throw new Error('JWKS contains no RSA signing keys');
+  }
+
+  keys = next;
+  fetchedAt = Date.now();
+};
+
+const refreshKeys = async () => {
+  try {
+    await fetchJwks();
+  } catch (error: any) {
+    logger.error('JWKS refresh error', { url: JWKS_URL, error: error.message });
+  } finally {
+    attemptedAt = Date.now();
+    refreshing = null;
+  }
+};
+
+// Public key for a token's kid, or undefined if user-service doesn't know it
+export const getVerificationKey = async (kid: string | undefined) => {
+  if (!kid) return undefined;
+
+  const stale = Date.now() - fetchedAt > JWKS_CACHE_TTL_MS;
+  if ((stale || !keys.has(kid)) && Date.now() - attemptedAt > MIN_REFETCH_INTERVAL_MS) {
+    refreshing = refreshing || refreshKeys();
+    await refreshing;
+  }
+  return keys.get(kid);
+};
+
+// The gateway can't verify any token without keys, so it refuses to start
+// until user-service has served them
+export const initJwks = async () => {
+  for (let attempt = 1; attempt <= STARTUP_ATTEMPTS; attempt++) {
+    try {
+      await fetchJwks();
+      attemptedAt = Date.now();
+      logger.info('JWKS loaded', { url: JWKS_URL, kids: Array.from(keys.keys()) });
+      return;
+    } catch (error: any) {
+      logger.warn('JWKS not available yet', { url: JWKS_URL, attempt, error: error.message });
+      await new Promise(resolve => setTimeout(resolve, STARTUP_RETRY_MS));
+    }
+  }
+  logger.error('No token verification keys: giving up', { url: JWKS_URL });
+  process.exit(1);
+};
+
+export const getJwksStatus = () => ({
+  url: JWKS_URL,
+  kids: Array.from(keys.keys()),
+  ageSeconds: fetchedAt ? Math.round((Date.now() - fetchedAt) / 1000) : null
+});
@@ -0,0 +1,26 @@
+// ===== Session & API Key Revocation Checks =====
+// user-service writes a Redis marker for each revoked session and API key,
+// kept for as long as a token or cached key could still be accepted. The
+// gateway only reads them; the key formats must match user-service's
+// services/revocation.
+import { cache } from '../cache/redis';
+
+// How long a verified API key is cached here. user-service keeps a revoked
+// key's marker at least this long, so it outlives any cached copy.
+export const API_KEY_VERIFY_CACHE_SECONDS = 60;
+
+const revokedSessionKey = (sessionId: string) => `auth:revoked:session:${sessionId}`;
+
+const revokedApiKeyKey = (keyId: string) => `auth:revoked:apikey:${keyId}`;
+
+// Fails open when Redis is down: access tokens are short-lived, so a revoked
+// session can outlive its revocation by at most one access-token lifetime
+export const isSessionRevoked = async (sessionId: string) => {
+  const entry = await cache.get(revokedSessionKey(sessionId));
+  return !!entry;
+};
+
+export const isApiKeyRevoked = async (keyId: string) => {
+  const entry = await cache.get(revokedApiKeyKey(keyId));
+  return !!entry;
+};
@@ -0,0 +1,31 @@
+// ===== Upstream HTTP Client =====
+import axios from 'axios';
+import { getRequestId } from '../logging/logger';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Optimized request function with retry logic
+export const makeRequest = async (url: string, options: any, retries = 2): Promise<any> => {
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    try {
+      const requestId = getRequestId();
+      const response = await axios({
+        ...options,
+        url,
+        headers: {
+          ...options.headers,
+          ...(requestId ? { 'X-Request-Id': requestId } : {})
+        },
+        timeout: options.timeout || DEFAULT_TIMEOUT_MS,
+        maxRedirects: 0,
+      });
+      return response;
+    } catch (error: any) {
+      // Client errors won't change on retry
+      if (attempt === retries || error.response?.status < 500) throw error;
+      
+      // Exponential backoff
+      await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 100));
+    }
+  }
+};
@@ -2,6 +2,11 @@
 // Run with: k6 run k6-load-test.js
 // Run with 500 VUs: k6 run --vus 500 --duration 60s k6-load-test.js
 // Run with HTML report: k6 run --out json=results.json k6-load-test.js
+//
+// Creating products needs a staff account: pass its access token with
+// -e STAFF_TOKEN=<token>. Without one, that share of traffic browses instead.
+// Orders are refused for unverified emails, so run order-service with
+// ORDERS_REQUIRE_VERIFIED_EMAIL=false to measure order creation.
 
 import http from 'k6/http';
 import { check, sleep, group } from 'k6';
@@ -47,6 +52,7 @@ export const options = {
 };
 
 const BASE_URL = __ENV.BASE_URL || 'http://localhost:3000';
+const STAFF_TOKEN = __ENV.STAFF_TOKEN;
 
 // ===== Helper Functions =====
 function generateEmail() {
@@ -100,8 +106,12 @@ export default function () {
     // 20% - User Login
     userLogin(params);
   } else if (scenarioWeight < 95) {
-    // 10% - Create Product
-    createProduct(params);
+    // 10% - Create Product (staff only)
+    if (STAFF_TOKEN) {
+      createProduct(params);
+    } else {
+      browseProducts(params);
+    }
   } else {
     // 5% - Full E-commerce Journey
     fullJourney(params);
@@ -252,7 +262,15 @@ function createProduct(params) {
       stock: randomIntBetween(1, 100),
     });
     
-    const res = http.post(`${BASE_URL}/api/products`, payload, params);
+    const staffParams = {
+      ...params,
+      headers: {
+        ...params.headers,
+        'Authorization': `Bearer ${STAFF_TOKEN}`,
+      },
+    };
+    
+    const res = http.post(`${BASE_URL}/api/products`, payload, staffParams);
     
     check(res, {
       'create product status is 201 or rate limited': (r) => [201, 429].includes(r.status),
@@ -277,11 +295,9 @@ function fullJourney(params) {
       return; // Exit if registration fails
     }
     
-    let token, userId;
+    let token;
     try {
-      const body = registerRes.json();
-      token = body.token;
-      userId = body.user.id;
+      token = registerRes.json().token;
     } catch (e) {
       return;
     }
@@ -313,10 +329,9 @@ function fullJourney(params) {
     
     sleep(2);
     
-    // 3. Create order (if we have a product)
-    if (productId && userId) {
+    // 3. Create order (if we have a product); it belongs to the token's user
+    if (productId) {
       const orderPayload = JSON.stringify({
-        userId: userId,
         items: [
           {
             productId: productId,
@@ -339,6 +354,9 @@ function fullJourney(params) {
 // ===== Setup and Teardown =====
 export function setup() {
   console.log('Starting load test against:', BASE_URL);
+  if (!STAFF_TOKEN) {
+    console.log('STAFF_TOKEN not set: product creation is replaced by browsing');
+  }
   
   // Verify target is accessible
   const res = http.get(`${BASE_URL}/health`);
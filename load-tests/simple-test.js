@@ -1,21 +1,28 @@
 const axios = require('axios');
 
 const BASE_URL = 'http://localhost:3000';
+// Access token of a staff account, for creating products. Without one the
+// test only reads the catalog.
+const STAFF_TOKEN = process.env.STAFF_TOKEN;
 const CONCURRENT_USERS = 50;
 const TEST_DURATION = 60000; // 60 seconds
 
-async function makeRequest(endpoint, method = 'GET', data = null) {
+async function makeRequest(endpoint, method = 'GET', data = null, token = null) {
   const startTime = Date.now();
   try {
     const config = {
       method,
       url: `${BASE_URL}${endpoint}`,
-      timeout: 5000
+      timeout: 5000,
+      headers: {}
     };
     
     if (data) {
       config.data = data;
-      config.headers = { 'Content-Type': 'application/json' };
+      config.headers['Content-Type'] = 'application/json';
+    }
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
     }
     
     const response = await axios(config);
@@ -60,15 +67,17 @@ async function runUser(userId) {
     // Get products
     results.push(await makeRequest('/api/products'));
     
-    // Create product
-    const productData = {
-      name: `Product ${userId}_${Date.now()}`,
-      description: 'Load test product',
-      price: Math.floor(Math.random() * 1000),
-      category: 'Electronics',
-      stock: Math.floor(Math.random() * 100)
-    };
-    results.push(await makeRequest('/api/products', 'POST', productData));
+    // Create product (staff only)
+    if (STAFF_TOKEN) {
+      const productData = {
+        name: `Product ${userId}_${Date.now()}`,
+        description: 'Load test product',
+        price: Math.floor(Math.random() * 1000),
+        category: 'Electronics',
+        stock: Math.floor(Math.random() * 100)
+      };
+      results.push(await makeRequest('/api/products', 'POST', productData, STAFF_TOKEN));
+    }
     
     // Small delay between requests
     await new Promise(resolve => setTimeout(resolve, 100));
@@ -81,6 +90,9 @@ async function runUser(userId) {
 async function runLoadTest() {
   console.log(`Starting load test with ${CONCURRENT_USERS} concurrent users for ${TEST_DURATION/1000} seconds`);
   console.log(`Target: ${BASE_URL}`);
+  if (!STAFF_TOKEN) {
+    console.log('STAFF_TOKEN not set: skipping product creation');
+  }
   
   const startTime = Date.now();
   
@@ -2,31 +2,71 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
-import { connectDB } from './config/database';
-import orderRoutes from './routes/orders';
 
 dotenv.config();
 
+// Imported after dotenv so module-level settings pick up .env
+import { connectDB } from './config/database';
+import { loadInternalApiToken } from './config/internalApi';
+import orderRoutes from './routes/orders';
+import internalRoutes from './routes/internal';
+import { getCircuitStatus } from './services/externalServices';
+import { HealthCheck, mongoCheck, redisCheck, livenessHandler, readinessHandler } from './health/checks';
+import { initMetrics, metricsMiddleware, metricsEndpoint, metricsSummaryEndpoint } from './metrics/prometheus';
+import { logger, initLogger, requestContextMiddleware, requestLoggingMiddleware } from './logging/logger';
+
 const app = express();
 const PORT = process.env.PORT || 3003;
 
+initMetrics('order-service', Number(PORT));
+initLogger('order-service');
+
+// Exits if INTERNAL_API_TOKEN is not set
+loadInternalApiToken();
+
 // Middleware
+app.use(requestContextMiddleware);
+app.use(requestLoggingMiddleware);
+app.use(metricsMiddleware);
 app.use(helmet());
 app.use(cors());
 app.use(express.json());
 
-// Health check
-app.get('/health', (req, res) => {
-  res.json({ status: 'OK', service: 'Order Service' });
+// Health checks
+// An open breaker means a dependency is failing fast; orders degrade rather than the service going unready
+const circuitCheck = (name: 'userService' | 'productService'): HealthCheck => ({
+  name: `${name}Circuit`,
+  critical: false,
+  run: async () => {
+    const circuit = getCircuitStatus()[name];
+    if (circuit.isOpen) {
+      throw new Error('Circuit open');
+    }
+    return { state: circuit.isClosed ? 'closed' : 'half-open', stats: circuit.state };
+  }
 });
 
+app.get('/health', livenessHandler('Order Service'));
+app.get('/health/live', livenessHandler('Order Service'));
+app.get('/health/ready', readinessHandler('Order Service', [
+  mongoCheck,
+  redisCheck,
+  circuitCheck('userService'),
+  circuitCheck('productService')
+]));
+
+// Metrics
+app.get('/metrics', metricsEndpoint);
+app.get('/metrics/summary', metricsSummaryEndpoint);
+
 // Routes
 app.use('/orders', orderRoutes);
+app.use('/internal', internalRoutes);
 
 // Connect to MongoDB and start server
 connectDB().then(() => {
   app.listen(PORT, () => {
-    console.log(`Order Service running on port ${PORT}`);
+    logger.info(`Order Service running on port ${PORT}`);
   });
 });
 
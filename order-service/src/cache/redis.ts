@@ -1,5 +1,6 @@
 // ===== Optimized Redis Cache with Pattern Deletion & Connection Pooling =====
 import Redis from 'ioredis';
+import { logger } from '../logging/logger';
 
 const redis = new Redis({
   host: process.env.REDIS_HOST || 'redis',
@@ -14,11 +15,11 @@ const redis = new Redis({
 });
 
 redis.on('connect', () => {
-  console.log('[OK] Redis connected (order-service)');
+  logger.info('Redis connected (order-service)');
 });
 
 redis.on('error', (err) => {
-  console.error('[ERROR] Redis error:', err.message);
+  logger.error('Redis error', { error: err.message });
 });
 
 // Cache helper functions with enhanced capabilities
@@ -28,7 +29,7 @@ export const cache = {
       const data = await redis.get(key);
       return data ? JSON.parse(data) : null;
     } catch (error) {
-      console.error('Cache get error:', error);
+      logger.error('Cache get error', error);
       return null;
     }
   },
@@ -38,7 +39,7 @@ export const cache = {
       await redis.setex(key, ttlSeconds, JSON.stringify(data));
       return true;
     } catch (error) {
-      console.error('Cache set error:', error);
+      logger.error('Cache set error', error);
       return false;
     }
   },
@@ -48,7 +49,7 @@ export const cache = {
       await redis.del(key);
       return true;
     } catch (error) {
-      console.error('Cache delete error:', error);
+      logger.error('Cache delete error', error);
       return false;
     }
   },
@@ -71,7 +72,7 @@ export const cache = {
       
       return deletedCount;
     } catch (error) {
-      console.error('Cache pattern delete error:', error);
+      logger.error('Cache pattern delete error', error);
       return 0;
     }
   },
@@ -83,7 +84,7 @@ export const cache = {
       const values = await redis.mget(keys);
       return values.map(v => v ? JSON.parse(v) : null);
     } catch (error) {
-      console.error('Cache mget error:', error);
+      logger.error('Cache mget error', error);
       return keys.map(() => null);
     }
   },
@@ -93,7 +94,7 @@ export const cache = {
       await redis.flushall();
       return true;
     } catch (error) {
-      console.error('Cache flush error:', error);
+      logger.error('Cache flush error', error);
       return false;
     }
   }
@@ -1,8 +1,11 @@
 // ===== Optimized Order Controller with Caching & Performance =====
 import { Request, Response } from 'express';
+import crypto from 'crypto';
 import { Order } from '../models/Order';
-import { validateProductsParallel } from '../services/externalServices';
+import { validateProductsParallel, getUserAddress } from '../services/externalServices';
 import { cache } from '../cache/redis';
+import { isStaff } from '../middleware/auth';
+import { logger } from '../logging/logger';
 
 const CACHE_TTL = {
   USER_ORDERS: 120,       // 2 minutes - orders change more frequently
@@ -10,12 +13,37 @@ const CACHE_TTL = {
   ALL_ORDERS: 60,         // 1 minute - admin view, needs freshness
 };
 
+// Customers only see their own orders; anyone else's look like they don't exist
+const canAccessOrder = (req: Request, ownerId: string) =>
+  isStaff(req) || String(ownerId) === (req as any).userId;
+
+const orderNotFound = (res: Response) => res.status(404).json({ error: 'Order not found' });
+
 export const createOrder = async (req: Request, res: Response) => {
   try {
-    const { userId, items } = req.body;
+    const { items, shippingAddressId, billingAddressId } = req.body;
+
+    // The order belongs to the caller; staff may place one for another user
+    const callerId = (req as any).userId;
+    const userId = req.body.userId ? String(req.body.userId) : callerId;
+    if (userId !== callerId && !isStaff(req)) {
+      return res.status(403).json({ error: 'Only staff can place orders for another user' });
+    }
 
-    if (!userId || !items || !Array.isArray(items) || items.length === 0) {
-      return res.status(400).json({ error: 'Invalid order data: userId and items are required' });
+    if (!items || !Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ error: 'Invalid order data: items are required' });
+    }
+
+    // Snapshot the referenced saved addresses onto the order
+    const [shippingAddress, billingAddress] = await Promise.all([
+      shippingAddressId ? getUserAddress(userId, String(shippingAddressId)) : undefined,
+      billingAddressId ? getUserAddress(userId, String(billingAddressId)) : undefined
+    ]);
+    if (shippingAddress === null) {
+      return res.status(400).json({ error: 'Shipping address not found' });
+    }
+    if (billingAddress === null) {
+      return res.status(400).json({ error: 'Billing address not found' });
     }
 
     // Validate products in PARALLEL (major performance improvement)
@@ -29,7 +57,9 @@ export const createOrder = async (req: Request, res: Response) => {
       userId,
       items: validatedItems,
       totalAmount,
-      status: 'pending'
+      status: 'pending',
+      shippingAddress,
+      billingAddress
     });
 
     await order.save();
@@ -43,7 +73,7 @@ export const createOrder = async (req: Request, res: Response) => {
       order
     });
   } catch (error) {
-    console.error('Create order error:', error);
+    logger.error('Create order error', error);
     res.status(500).json({ error: error instanceof Error ? error.message : 'Internal server error' });
   }
 };
@@ -85,7 +115,7 @@ export const getAllOrders = async (req: Request, res: Response) => {
     
     res.json({ ...result, cached: false });
   } catch (error) {
-    console.error('Get orders error:', error);
+    logger.error('Get orders error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -93,6 +123,10 @@ export const getAllOrders = async (req: Request, res: Response) => {
 export const getOrdersByUser = async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
+    if (!canAccessOrder(req, userId)) {
+      return res.status(404).json({ error: 'Orders not found' });
+    }
+
     const { page = 1, limit = 20 } = req.query;
     const pageNum = parseInt(page as string);
     const limitNum = Math.min(parseInt(limit as string) || 20, 50);
@@ -123,7 +157,7 @@ export const getOrdersByUser = async (req: Request, res: Response) => {
     
     res.json({ ...result, cached: false });
   } catch (error) {
-    console.error('Get user orders error:', error);
+    logger.error('Get user orders error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -135,20 +169,23 @@ export const getOrderById = async (req: Request, res: Response) => {
     
     const cachedOrder = await cache.get(cacheKey);
     if (cachedOrder) {
+      if (!canAccessOrder(req, cachedOrder.userId)) return orderNotFound(res);
       return res.json({ order: cachedOrder, cached: true });
     }
     
     const order = await Order.findById(id).lean();
     
     if (!order) {
-      return res.status(404).json({ error: 'Order not found' });
+      return orderNotFound(res);
     }
     
     await cache.set(cacheKey, order, CACHE_TTL.SINGLE_ORDER);
 
+    if (!canAccessOrder(req, order.userId)) return orderNotFound(res);
+
     res.json({ order, cached: false });
   } catch (error) {
-    console.error('Get order error:', error);
+    logger.error('Get order error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -183,7 +220,7 @@ export const updateOrderStatus = async (req: Request, res: Response) => {
       order
     });
   } catch (error) {
-    console.error('Update order status error:', error);
+    logger.error('Update order status error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -193,22 +230,26 @@ export const getOrderItems = async (req: Request, res: Response) => {
     const { id } = req.params;
     const cacheKey = `order:${id}:items`;
     
-    const cachedItems = await cache.get(cacheKey);
-    if (cachedItems) {
-      return res.json({ items: cachedItems, cached: true });
+    // Cached with the owner so the ownership check doesn't need the database
+    const cached = await cache.get(cacheKey);
+    if (cached?.userId) {
+      if (!canAccessOrder(req, cached.userId)) return orderNotFound(res);
+      return res.json({ items: cached.items, cached: true });
     }
     
-    const order = await Order.findById(id).select('items').lean();
+    const order = await Order.findById(id).select('userId items').lean();
     
     if (!order) {
-      return res.status(404).json({ error: 'Order not found' });
+      return orderNotFound(res);
     }
     
-    await cache.set(cacheKey, order.items, CACHE_TTL.SINGLE_ORDER);
+    await cache.set(cacheKey, { userId: order.userId, items: order.items }, CACHE_TTL.SINGLE_ORDER);
+
+    if (!canAccessOrder(req, order.userId)) return orderNotFound(res);
 
     res.json({ items: order.items, cached: false });
   } catch (error) {
-    console.error('Get order items error:', error);
+    logger.error('Get order items error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -218,8 +259,8 @@ export const cancelOrder = async (req: Request, res: Response) => {
     const { id } = req.params;
     
     const order = await Order.findById(id);
-    if (!order) {
-      return res.status(404).json({ error: 'Order not found' });
+    if (!order || !canAccessOrder(req, order.userId)) {
+      return orderNotFound(res);
     }
     
     // Only allow cancellation of pending or confirmed orders
@@ -240,7 +281,38 @@ export const cancelOrder = async (req: Request, res: Response) => {
       order
     });
   } catch (error) {
-    console.error('Cancel order error:', error);
+    logger.error('Cancel order error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Anonymize User Orders - Internal, called by user-service on account deletion =====
+// Orders are kept for financial records; the link to the person and the
+// address snapshots are removed
+export const anonymizeUserOrders = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const anonymousId = `deleted:${crypto.randomUUID()}`;
+
+    const orderIds = await Order.find({ userId }).distinct('_id');
+    const result = await Order.updateMany(
+      { userId },
+      { userId: anonymousId, anonymizedAt: new Date(), $unset: { shippingAddress: 1, billingAddress: 1 } }
+    );
+
+    // Invalidate caches
+    await Promise.all(orderIds.map(id => cache.del(`order:${id}`)));
+    await cache.delPattern(`orders:user:${userId}*`);
+    await cache.delPattern('orders:all:*');
+
+    logger.info('User orders anonymized', { userId, anonymousId, orders: result.modifiedCount });
+
+    res.json({
+      message: 'Orders anonymized',
+      ordersAnonymized: result.modifiedCount
+    });
+  } catch (error) {
+    logger.error('Anonymize orders error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -0,0 +1,78 @@
+// ===== Gateway Identity & Role Checks =====
+// The API gateway verifies bearer tokens and forwards the caller's identity in
+// X-User-Id / X-User-Roles / X-User-Email-Verified (dropping any client-supplied
+// copies), so this service trusts those headers instead of re-verifying the token.
+import { Request, Response, NextFunction } from 'express';
+import { getInternalApiToken } from '../config/internalApi';
+
+export type Role = 'customer' | 'staff' | 'admin';
+
+const parseRoles = (header: string | string[] | undefined): string[] => {
+  const value = Array.isArray(header) ? header.join(',') : header || '';
+  return value.split(',').map(role => role.trim()).filter(Boolean);
+};
+
+// Allow the request only if the caller has at least one of the given roles
+export const requireRole = (...roles: Role[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.headers['x-user-id'];
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const userRoles = parseRoles(req.headers['x-user-roles']);
+    if (!userRoles.some(role => roles.includes(role as Role))) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+
+    (req as any).userId = userId;
+    (req as any).userRoles = userRoles;
+    next();
+  };
+
+// Catalog and order administration
+export const requireStaff = requireRole('staff', 'admin');
+
+// Any signed-in caller. The identity is the gateway-asserted one, never a
+// user id from the request body or path.
+export const requireUser = (req: Request, res: Response, next: NextFunction) => {
+  const userId = req.headers['x-user-id'];
+  if (!userId || Array.isArray(userId)) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  (req as any).userId = userId;
+  (req as any).userRoles = parseRoles(req.headers['x-user-roles']);
+  next();
+};
+
+// Must run after requireUser or requireRole
+export const isStaff = (req: Request) =>
+  ((req as any).userRoles as string[] || []).some(role => role === 'staff' || role === 'admin');
+
+// Policy: unverified accounts can't perform the guarded action. Disabled
+// when the given env flag is set to 'false'.
+export const requireVerifiedEmail = (policyEnvVar: string, error: string) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (process.env[policyEnvVar] === 'false') {
+      return next();
+    }
+
+    if (!req.headers['x-user-id']) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (req.headers['x-user-email-verified'] !== 'true') {
+      return res.status(403).json({ error });
+    }
+    next();
+  };
+
+// Service-to-service endpoints that the gateway never routes. Callers must
+// present the shared INTERNAL_API_TOKEN.
+export const requireInternalToken = (req: Request, res: Response, next: NextFunction) => {
+  if (req.headers['x-internal-token'] !== getInternalApiToken()) {
+    return res.status(403).json({ error: 'Internal endpoint' });
+  }
+  next();
+};
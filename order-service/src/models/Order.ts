@@ -7,11 +7,28 @@ export interface IOrderItem {
   price: number;
 }
 
+// Copy of a saved user address taken when the order is placed, so later
+// edits to the address book don't change past orders
+export interface IOrderAddress {
+  addressId: string;
+  label?: string;
+  recipient: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  postcode: string;
+  country: string;
+  phone?: string;
+}
+
 export interface IOrder extends Document {
   userId: string;
   items: IOrderItem[];
   totalAmount: number;
   status: 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
+  shippingAddress?: IOrderAddress;
+  billingAddress?: IOrderAddress;
+  anonymizedAt?: Date;   // Set when the owning account was deleted
   createdAt: Date;
   updatedAt: Date;
 }
@@ -37,6 +54,18 @@ const orderItemSchema = new Schema<IOrderItem>({
   }
 });
 
+const orderAddressSchema = new Schema<IOrderAddress>({
+  addressId: { type: String, required: true },
+  label: String,
+  recipient: { type: String, required: true },
+  line1: { type: String, required: true },
+  line2: String,
+  city: { type: String, required: true },
+  postcode: { type: String, required: true },
+  country: { type: String, required: true },
+  phone: String
+}, { _id: false });
+
 const orderSchema = new Schema<IOrder>({
   userId: {
     type: String,
@@ -54,7 +83,10 @@ const orderSchema = new Schema<IOrder>({
     enum: ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled'],
     default: 'pending',
     index: true  // Single field index for status filtering
-  }
+  },
+  shippingAddress: orderAddressSchema,
+  billingAddress: orderAddressSchema,
+  anonymizedAt: Date
 }, {
   timestamps: true
 });
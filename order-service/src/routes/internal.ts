@@ -0,0 +1,13 @@
+import express from 'express';
+import { anonymizeUserOrders } from '../controllers/orderController';
+import { requireInternalToken } from '../middleware/auth';
+
+// Service-to-service routes, not exposed through the gateway
+const router = express.Router();
+
+router.use(requireInternalToken);
+
+// POST anonymize a deleted user's orders
+router.post('/users/:userId/anonymize-orders', anonymizeUserOrders);
+
+export default router;
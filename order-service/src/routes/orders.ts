@@ -8,28 +8,35 @@ import {
   getOrdersByUser,
   cancelOrder
 } from '../controllers/orderController';
+import { requireStaff, requireUser, requireVerifiedEmail } from '../middleware/auth';
 
 const router = express.Router();
 
-// GET all orders with optional userId filter and caching
-router.get('/', getAllOrders);
+// ORDERS_REQUIRE_VERIFIED_EMAIL=false turns the policy off
+const requireVerifiedForOrders = requireVerifiedEmail(
+  'ORDERS_REQUIRE_VERIFIED_EMAIL',
+  'Verify your email address before placing orders'
+);
 
-// GET orders by user ID
-router.get('/user/:userId', getOrdersByUser);
+// GET all orders with optional userId filter and caching (staff/admin)
+router.get('/', requireStaff, getAllOrders);
 
-// GET single order by ID
-router.get('/:id', getOrderById);
+// GET orders by user ID (own orders, or any user's for staff/admin)
+router.get('/user/:userId', requireUser, getOrdersByUser);
 
-// GET order items
-router.get('/:id/items', getOrderItems);
+// GET single order by ID (owner or staff/admin)
+router.get('/:id', requireUser, getOrderById);
 
-// POST create new order
-router.post('/', createOrder);
+// GET order items (owner or staff/admin)
+router.get('/:id/items', requireUser, getOrderItems);
 
-// PATCH update order status
-router.patch('/:id/status', updateOrderStatus);
+// POST create new order for the caller (verified email required by default)
+router.post('/', requireUser, requireVerifiedForOrders, createOrder);
 
-// DELETE cancel order
-router.delete('/:id', cancelOrder);
+// PATCH update order status (staff/admin)
+router.patch('/:id/status', requireStaff, updateOrderStatus);
+
+// DELETE cancel order (owner or staff/admin)
+router.delete('/:id', requireUser, cancelOrder);
 
 export default router;
@@ -1,6 +1,9 @@
 // ===== Optimized External Services with Circuit Breaker & Parallel Execution =====
 import axios, { AxiosInstance } from 'axios';
 import CircuitBreaker from 'opossum';
+import { getInternalApiToken } from '../config/internalApi';
+import { logger, getRequestId } from '../logging/logger';
+import { IOrderAddress } from '../models/Order';
 
 const USER_SERVICE_URL = process.env.USER_SERVICE_URL || 'http://localhost:3001';
 const PRODUCT_SERVICE_URL = process.env.PRODUCT_SERVICE_URL || 'http://localhost:3002';
@@ -19,6 +22,13 @@ const httpClient: AxiosInstance = axios.create({
   }
 });
 
+// Propagate the caller's correlation ID to downstream services
+httpClient.interceptors.request.use((config) => {
+  const requestId = getRequestId();
+  if (requestId) config.headers.set('X-Request-Id', requestId);
+  return config;
+});
+
 // ===== Circuit Breaker Configuration =====
 const circuitBreakerOptions = {
   timeout: 5000,           // If request takes longer than 5s, trigger failure
@@ -40,19 +50,38 @@ export const userServiceBreaker = new CircuitBreaker(validateUserFn, {
   name: 'userService'
 });
 
-userServiceBreaker.on('open', () => console.warn('🔴 User Service circuit OPENED'));
-userServiceBreaker.on('halfOpen', () => console.info('🟡 User Service circuit HALF-OPEN'));
-userServiceBreaker.on('close', () => console.info('🟢 User Service circuit CLOSED'));
+userServiceBreaker.on('open', () => logger.warn('User Service circuit OPENED'));
+userServiceBreaker.on('halfOpen', () => logger.info('User Service circuit HALF-OPEN'));
+userServiceBreaker.on('close', () => logger.info('User Service circuit CLOSED'));
 
 export const validateUser = async (userId: string): Promise<boolean> => {
   try {
     return await userServiceBreaker.fire(userId);
   } catch (error) {
-    console.error('User validation error:', error);
+    logger.error('User validation error', error);
     return false;
   }
 };
 
+// ===== Saved Addresses =====
+// Internal user-service lookup; returns null when the user has no such address
+export const getUserAddress = async (userId: string, addressId: string): Promise<IOrderAddress | null> => {
+  try {
+    const response = await httpClient.get(
+      `${USER_SERVICE_URL}/internal/users/${encodeURIComponent(userId)}/addresses/${encodeURIComponent(addressId)}`,
+      { headers: { 'X-Internal-Token': getInternalApiToken() } }
+    );
+    const { id, label, recipient, line1, line2, city, postcode, country, phone } = response.data.address;
+    return { addressId: String(id), label, recipient, line1, line2, city, postcode, country, phone };
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      return null;
+    }
+    logger.error('Address fetch error', error);
+    throw new Error('User service unavailable');
+  }
+};
+
 // ===== Product Service Circuit Breaker =====
 const getProductFn = async (productId: string) => {
   const response = await httpClient.get(`${PRODUCT_SERVICE_URL}/products/${productId}`);
@@ -64,15 +93,15 @@ export const productServiceBreaker = new CircuitBreaker(getProductFn, {
   name: 'productService'
 });
 
-productServiceBreaker.on('open', () => console.warn('🔴 Product Service circuit OPENED'));
-productServiceBreaker.on('halfOpen', () => console.info('🟡 Product Service circuit HALF-OPEN'));
-productServiceBreaker.on('close', () => console.info('🟢 Product Service circuit CLOSED'));
+productServiceBreaker.on('open', () => logger.warn('Product Service circuit OPENED'));
+productServiceBreaker.on('halfOpen', () => logger.info('Product Service circuit HALF-OPEN'));
+productServiceBreaker.on('close', () => logger.info('Product Service circuit CLOSED'));
 
 export const getProduct = async (productId: string) => {
   try {
     return await productServiceBreaker.fire(productId);
   } catch (error) {
-    console.error('Product fetch error:', error);
+    logger.error('Product fetch error', error);
     throw new Error(`Product not found: ${productId}`);
   }
 };
@@ -106,7 +135,7 @@ export const validateProductsParallel = async (
 
 // ===== Legacy Sequential Validation (kept for backwards compatibility) =====
 export const validateProducts = async (items: Array<{productId: string, quantity: number}>) => {
-  console.warn('⚠️ Using sequential validation - consider using validateProductsParallel for better performance');
+  logger.warn('Using sequential validation - consider using validateProductsParallel for better performance');
   const validatedItems = [];
   
   for (const item of items) {
@@ -2,42 +2,61 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Imported after dotenv so module-level settings pick up .env
 import { connectDB } from './config/database';
+import { loadInternalApiToken } from './config/internalApi';
 import productRoutes from './routes/products';
 import categoryRoutes from './routes/categories';
-
-dotenv.config();
+import internalRoutes from './routes/internal';
+import { startReservationExpiry } from './services/stockReservations';
+import { mongoCheck, redisCheck, livenessHandler, readinessHandler } from './health/checks';
+import { initMetrics, metricsMiddleware, metricsEndpoint, metricsSummaryEndpoint } from './metrics/prometheus';
+import { logger, initLogger, requestContextMiddleware, requestLoggingMiddleware } from './logging/logger';
 
 const app = express();
 const PORT = process.env.PORT || 3002;
 
+initMetrics('product-service', Number(PORT));
+initLogger('product-service');
+
+// Exits if INTERNAL_API_TOKEN is not set
+loadInternalApiToken();
+
 // Middleware
+app.use(requestContextMiddleware);
+app.use(requestLoggingMiddleware);
+app.use(metricsMiddleware);
 app.use(helmet());
 app.use(cors());
 app.use(express.json());
 
-// Health check
-app.get('/health', (req, res) => {
-  res.json({ status: 'OK', service: 'Product Service' });
-});
+// Health checks
+app.get('/health', livenessHandler('Product Service'));
+app.get('/health/live', livenessHandler('Product Service'));
+app.get('/health/ready', readinessHandler('Product Service', [mongoCheck, redisCheck]));
+
+// Metrics
+app.get('/metrics', metricsEndpoint);
+app.get('/metrics/summary', metricsSummaryEndpoint);
 
 // Routes
 app.use('/products', productRoutes);
 app.use('/categories', categoryRoutes);
+app.use('/internal', internalRoutes);
 
 // Connect to MongoDB and start server
 connectDB().then(() => {
+  startReservationExpiry();
   app.listen(PORT, () => {
-    console.log(`Product Service running on port ${PORT}`);
-    console.log('Available routes:');
-    console.log('GET /health');
-    console.log('GET /products');
-    console.log('POST /products');
-    console.log('GET /categories');
-    console.log('POST /categories');
+    logger.info(`Product Service running on port ${PORT}`, {
+      routes: ['GET /health', 'GET /health/ready', 'GET /metrics', 'GET /products', 'POST /products', 'GET /categories', 'POST /categories']
+    });
   });
 }).catch(error => {
-  console.error('Failed to connect to database:', error);
+  logger.error('Failed to connect to database', error);
 });
 
 export default app;
\ No newline at end of file
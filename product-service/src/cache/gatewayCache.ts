@@ -0,0 +1,18 @@
+// ===== Gateway Response Cache Purge =====
+// The gateway caches public product GETs in the same Redis (see
+// api-gateway/src/cache/responseCache) and purges them after writes it
+// proxies. Stock reservations change products without a gateway write, so
+// they purge the entries here, in the gateway's key format:
+// gateway:response:<path>|<query>, with stale copies under
+// gateway:response-stale:<path>|<query>.
+import { cache } from './redis';
+
+const KEY_PREFIXES = ['gateway:response:', 'gateway:response-stale:'];
+const PRODUCT_LISTS = ['/api/products', '/api/products/category/*'];
+
+export const purgeGatewayProductCache = async (productIds: string[]) => {
+  const paths = [...PRODUCT_LISTS, ...productIds.map(id => `/api/products/${encodeURIComponent(id)}`)];
+  await Promise.all(KEY_PREFIXES.flatMap(prefix =>
+    paths.map(path => cache.delPattern(`${prefix}${path}|*`))
+  ));
+};
@@ -0,0 +1,24 @@
+// ===== Internal API Token =====
+// Shared secret that services present in X-Internal-Token on /internal
+// calls. There is no default: a known fallback would open those routes to
+// anyone, so every service refuses to start without INTERNAL_API_TOKEN.
+import { logger } from '../logging/logger';
+
+let internalApiToken: string | null = null;
+
+// Called once at startup, after .env is loaded
+export const loadInternalApiToken = () => {
+  const token = process.env.INTERNAL_API_TOKEN;
+  if (!token) {
+    logger.error('Internal API token configuration error', { error: 'INTERNAL_API_TOKEN is not set' });
+    process.exit(1);
+  }
+  internalApiToken = token;
+};
+
+export const getInternalApiToken = () => {
+  if (!internalApiToken) {
+    throw new Error('Internal API token has not been loaded');
+  }
+  return internalApiToken;
+};
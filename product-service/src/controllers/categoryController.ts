@@ -2,6 +2,7 @@
 import { Request, Response } from 'express';
 import { Category } from '../models/Category';
 import { cache } from '../cache/redis';
+import { logger } from '../logging/logger';
 
 const CACHE_TTL = {
   ALL_CATEGORIES: 600,    // 10 minutes - categories change less frequently
@@ -25,7 +26,7 @@ export const getAllCategories = async (req: Request, res: Response) => {
     
     res.json({ categories, cached: false });
   } catch (error) {
-    console.error('Get categories error:', error);
+    logger.error('Get categories error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -50,7 +51,7 @@ export const getCategoryById = async (req: Request, res: Response) => {
     
     res.json({ category, cached: false });
   } catch (error) {
-    console.error('Get category error:', error);
+    logger.error('Get category error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -79,7 +80,7 @@ export const createCategory = async (req: Request, res: Response) => {
       category
     });
   } catch (error) {
-    console.error('Create category error:', error);
+    logger.error('Create category error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -115,7 +116,7 @@ export const updateCategory = async (req: Request, res: Response) => {
       category
     });
   } catch (error) {
-    console.error('Update category error:', error);
+    logger.error('Update category error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -135,7 +136,7 @@ export const deleteCategory = async (req: Request, res: Response) => {
 
     res.json({ message: 'Category deleted successfully' });
   } catch (error) {
-    console.error('Delete category error:', error);
+    logger.error('Delete category error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -1,7 +1,9 @@
 // ===== Optimized Product Controller with Full Caching & Performance =====
 import { Request, Response } from 'express';
-import { Product } from '../models/Product';
+import { FilterQuery } from 'mongoose';
+import { IProduct, Product } from '../models/Product';
 import { cache } from '../cache/redis';
+import { logger } from '../logging/logger';
 
 // Cache TTL constants (in seconds)
 const CACHE_TTL = {
@@ -60,7 +62,7 @@ export const getAllProducts = async (req: Request, res: Response) => {
     
     res.json({ ...result, cached: false });
   } catch (error) {
-    console.error('Get products error:', error);
+    logger.error('Get products error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -87,7 +89,7 @@ export const getProductById = async (req: Request, res: Response) => {
     
     res.json({ product, cached: false });
   } catch (error) {
-    console.error('Get product error:', error);
+    logger.error('Get product error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -125,7 +127,7 @@ export const getProductsByCategory = async (req: Request, res: Response) => {
     
     res.json({ ...result, cached: false });
   } catch (error) {
-    console.error('Get products by category error:', error);
+    logger.error('Get products by category error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -157,7 +159,7 @@ export const createProduct = async (req: Request, res: Response) => {
       product
     });
   } catch (error) {
-    console.error('Create product error:', error);
+    logger.error('Create product error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -165,16 +167,30 @@ export const createProduct = async (req: Request, res: Response) => {
 export const updateProduct = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const updates = req.body;
-    
+    // reservedStock and reservationIds belong to stock reservations
+    const { reservedStock, reservationIds, ...updates } = req.body;
+
     const product = await Product.findById(id);
     if (!product) {
       return res.status(404).json({ error: 'Product not found' });
     }
 
+    // Checked in the update itself so a reservation made in between counts
+    const filter: FilterQuery<IProduct> = { _id: id };
+    if (typeof updates.stock === 'number') {
+      filter.$expr = { $gte: [updates.stock, { $ifNull: ['$reservedStock', 0] }] };
+    }
+
     const oldCategory = product.category;
-    const updatedProduct = await Product.findByIdAndUpdate(id, updates, { new: true, runValidators: true }).lean();
-    
+    const updatedProduct = await Product.findOneAndUpdate(filter, updates, { new: true, runValidators: true }).lean();
+    if (!updatedProduct) {
+      const current = await Product.findById(id).select('reservedStock').lean();
+      if (!current) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+      return res.status(400).json({ error: `Stock cannot be set below the ${current.reservedStock} units currently reserved` });
+    }
+
     // Invalidate caches
     await cache.del(`product:${id}`);
     await invalidateProductCaches(oldCategory);
@@ -187,7 +203,7 @@ export const updateProduct = async (req: Request, res: Response) => {
       product: updatedProduct
     });
   } catch (error) {
-    console.error('Update product error:', error);
+    logger.error('Update product error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -207,7 +223,7 @@ export const deleteProduct = async (req: Request, res: Response) => {
 
     res.json({ message: 'Product deleted successfully' });
   } catch (error) {
-    console.error('Delete product error:', error);
+    logger.error('Delete product error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -222,6 +238,6 @@ async function invalidateProductCaches(category?: string) {
       await cache.del(`category:${category}`);
     }
   } catch (error) {
-    console.error('Cache invalidation error:', error);
+    logger.error('Cache invalidation error', error);
   }
 }
\ No newline at end of file
@@ -0,0 +1,109 @@
+// ===== Stock Reservations (internal) =====
+// For checkout callers to hold stock; see services/stockReservations.
+// order-service doesn't call these yet: createOrder still only checks stock
+// through validateProductsParallel, so orders can still oversell.
+import { Request, Response } from 'express';
+import { IStockReservation } from '../models/StockReservation';
+import {
+  RESERVATION_LIMITS,
+  ReservationTransitionResult,
+  reserveStock,
+  commitReservation,
+  releaseReservation,
+  getReservation
+} from '../services/stockReservations';
+import { logger } from '../logging/logger';
+
+const formatReservation = (reservation: Pick<IStockReservation, '_id' | 'items' | 'status' | 'reference' | 'expiresAt' | 'committedAt' | 'releasedAt' | 'createdAt'>) => ({
+  id: reservation._id,
+  status: reservation.status,
+  reference: reservation.reference,
+  items: reservation.items.map(item => ({ productId: String(item.productId), quantity: item.quantity })),
+  expiresAt: reservation.expiresAt,
+  committedAt: reservation.committedAt,
+  releasedAt: reservation.releasedAt,
+  createdAt: reservation.createdAt
+});
+
+const TRANSITION_ERRORS = {
+  not_found: { status: 404, error: 'Reservation not found' },
+  not_active: { status: 409, error: 'Reservation is no longer active' },
+  expired: { status: 409, error: 'Reservation expired' },
+  insufficient_stock: { status: 409, error: 'Insufficient stock' }
+};
+
+const sendTransition = (res: Response, result: ReservationTransitionResult, message: string) => {
+  if (!result.ok) {
+    const { status, error } = TRANSITION_ERRORS[result.reason];
+    return res.status(status).json({ error, ...('failures' in result ? { failures: result.failures } : {}) });
+  }
+  res.json({ message, reservation: formatReservation(result.reservation) });
+};
+
+// Body: { items: [{ productId, quantity }], ttlSeconds?, reference? }
+export const createReservation = async (req: Request, res: Response) => {
+  try {
+    const { items, ttlSeconds = RESERVATION_LIMITS.DEFAULT_TTL_SECONDS, reference } = req.body;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ error: 'Items are required' });
+    }
+    if (items.length > RESERVATION_LIMITS.MAX_ITEMS) {
+      return res.status(400).json({ error: `At most ${RESERVATION_LIMITS.MAX_ITEMS} items can be reserved at once` });
+    }
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds < 1 || ttlSeconds > RESERVATION_LIMITS.MAX_TTL_SECONDS) {
+      return res.status(400).json({ error: `ttlSeconds must be between 1 and ${RESERVATION_LIMITS.MAX_TTL_SECONDS}` });
+    }
+    if (reference !== undefined && typeof reference !== 'string') {
+      return res.status(400).json({ error: 'Reference must be a string' });
+    }
+
+    const result = await reserveStock(items, ttlSeconds, reference);
+    if (!result.ok) {
+      return res.status(result.status).json({
+        error: result.status === 400 ? 'Invalid items' : 'Insufficient stock',
+        failures: result.failures
+      });
+    }
+
+    res.status(201).json({
+      message: 'Stock reserved',
+      reservation: formatReservation(result.reservation)
+    });
+  } catch (error) {
+    logger.error('Reserve stock error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getStockReservation = async (req: Request, res: Response) => {
+  try {
+    const reservation = await getReservation(req.params.id);
+    if (!reservation) {
+      return res.status(404).json({ error: 'Reservation not found' });
+    }
+    res.json({ reservation: formatReservation(reservation) });
+  } catch (error) {
+    logger.error('Get reservation error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const commitStockReservation = async (req: Request, res: Response) => {
+  try {
+    sendTransition(res, await commitReservation(req.params.id), 'Reservation committed');
+  } catch (error) {
+    logger.error('Commit reservation error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Safe to repeat; releasing an expired reservation is a no-op
+export const releaseStockReservation = async (req: Request, res: Response) => {
+  try {
+    sendTransition(res, await releaseReservation(req.params.id), 'Reservation released');
+  } catch (error) {
+    logger.error('Release reservation error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,4 +1,4 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, Types } from 'mongoose';
 
 export interface IProduct extends Document {
   name: string;
@@ -6,6 +6,8 @@ export interface IProduct extends Document {
   price: number;
   category: string;
   stock: number;
+  reservedStock: number;   // Held by active reservations; available = stock - reservedStock
+  reservationIds: Types.ObjectId[];   // Reservations counted in reservedStock
   createdAt: Date;
   updatedAt: Date;
 }
@@ -35,6 +37,17 @@ const productSchema = new Schema<IProduct>({
     required: true,
     min: 0,
     default: 0
+  },
+  reservedStock: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  // Changed in the same update as reservedStock, so a reservation's effect
+  // on each product can be checked and is never applied or undone twice
+  reservationIds: {
+    type: [Schema.Types.ObjectId],
+    select: false
   }
 }, {
   timestamps: true
@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Stock held for a checkout. While active, its quantities count in each
+// product's reservedStock. Committing takes them out of stock for good;
+// releasing or expiring gives them back. A reservation is pending while its
+// products are being reserved.
+export type ReservationStatus = 'pending' | 'active' | 'committed' | 'released' | 'expired';
+
+export interface IReservationItem {
+  productId: Types.ObjectId;
+  quantity: number;
+}
+
+export interface IStockReservation extends Document {
+  items: IReservationItem[];
+  status: ReservationStatus;
+  reference?: string;     // Caller's id for the checkout, e.g. an order id
+  expiresAt: Date;
+  committedAt?: Date;
+  releasedAt?: Date;      // Released or expired
+  settled: boolean;       // Products have been changed to match the status
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reservationItemSchema = new Schema<IReservationItem>({
+  productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+  quantity: { type: Number, required: true, min: 1 }
+}, { _id: false });
+
+const stockReservationSchema = new Schema<IStockReservation>({
+  items: {
+    type: [reservationItemSchema],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'active', 'committed', 'released', 'expired'],
+    default: 'pending'
+  },
+  reference: String,
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  committedAt: Date,
+  releasedAt: Date,
+  settled: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+// The expiry sweep looks for active reservations past their expiry
+stockReservationSchema.index({ status: 1, expiresAt: 1 });
+// ...and for ones left unsettled by a crash
+stockReservationSchema.index({ updatedAt: 1 }, { partialFilterExpression: { settled: false } });
+
+export const StockReservation = mongoose.model<IStockReservation>('StockReservation', stockReservationSchema);
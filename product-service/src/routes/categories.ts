@@ -6,6 +6,7 @@ import {
   updateCategory,
   deleteCategory
 } from '../controllers/categoryController';
+import { requireStaff } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -15,13 +16,13 @@ router.get('/', getAllCategories);
 // GET single category by ID
 router.get('/:id', getCategoryById);
 
-// POST create new category
-router.post('/', createCategory);
+// POST create new category (staff/admin)
+router.post('/', requireStaff, createCategory);
 
-// PUT update category
-router.put('/:id', updateCategory);
+// PUT update category (staff/admin)
+router.put('/:id', requireStaff, updateCategory);
 
-// DELETE category
-router.delete('/:id', deleteCategory);
+// DELETE category (staff/admin)
+router.delete('/:id', requireStaff, deleteCategory);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,27 @@
+import express from 'express';
+import {
+  createReservation,
+  getStockReservation,
+  commitStockReservation,
+  releaseStockReservation
+} from '../controllers/stockController';
+import { requireInternalToken } from '../middleware/auth';
+
+// Service-to-service routes, not exposed through the gateway
+const router = express.Router();
+
+router.use(requireInternalToken);
+
+// POST reserve stock for a list of items
+router.post('/stock/reservations', createReservation);
+
+// GET a reservation
+router.get('/stock/reservations/:id', getStockReservation);
+
+// POST take reserved stock out of inventory
+router.post('/stock/reservations/:id/commit', commitStockReservation);
+
+// POST give reserved stock back
+router.post('/stock/reservations/:id/release', releaseStockReservation);
+
+export default router;
@@ -7,6 +7,7 @@ import {
   deleteProduct,
   getProductsByCategory
 } from '../controllers/productController';
+import { requireStaff } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -19,13 +20,13 @@ router.get('/category/:category', getProductsByCategory);
 // GET single product by ID
 router.get('/:id', getProductById);
 
-// POST create new product
-router.post('/', createProduct);
+// POST create new product (staff/admin)
+router.post('/', requireStaff, createProduct);
 
-// PUT update product
-router.put('/:id', updateProduct);
+// PUT update product (staff/admin)
+router.put('/:id', requireStaff, updateProduct);
 
-// DELETE product
-router.delete('/:id', deleteProduct);
+// DELETE product (staff/admin)
+router.delete('/:id', requireStaff, deleteProduct);
 
 export default router;
\ No newline at end of file
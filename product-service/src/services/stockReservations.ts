@@ -0,0 +1,343 @@
+// ===== Stock Reservations =====
+// Checkouts reserve stock before the order is placed, then commit it once the
+// order goes through or release it if it doesn't. Each product is changed
+// with a conditional update, so concurrent checkouts can't both take the
+// last unit. A reservation covers several products: if any of them fails,
+// the ones already changed are put back and nothing is reserved.
+//
+// The reservation is written before any product is touched, and each product
+// update also adds or removes the reservation's id in reservationIds. So a
+// crash part-way leaves a record the expiry sweep can finish from, and
+// repeating an update for a product that already has it changes nothing.
+import mongoose, { Types } from 'mongoose';
+import { Product } from '../models/Product';
+import { IReservationItem, IStockReservation, StockReservation } from '../models/StockReservation';
+import { cache } from '../cache/redis';
+import { purgeGatewayProductCache } from '../cache/gatewayCache';
+import { logger } from '../logging/logger';
+
+export const RESERVATION_LIMITS = {
+  MAX_ITEMS: 100,
+  DEFAULT_TTL_SECONDS: Number(process.env.STOCK_RESERVATION_TTL_SECONDS) || 900,   // 15 minutes
+  MAX_TTL_SECONDS: 3600
+};
+const EXPIRY_SWEEP_INTERVAL_MS = 30000;
+// Unsettled reservations untouched for this long were left by a crash
+const UNSETTLED_GRACE_MS = 60000;
+
+export interface ReservationItemInput {
+  productId: string;
+  quantity: number;
+}
+
+export type ItemFailureReason = 'invalid_product_id' | 'invalid_quantity' | 'not_found' | 'insufficient_stock';
+
+export interface ItemFailure {
+  productId: string;
+  reason: ItemFailureReason;
+  requested?: number;
+  available?: number;
+}
+
+export type ReserveResult =
+  | { ok: true; reservation: IStockReservation }
+  | { ok: false; status: 400 | 409; failures: ItemFailure[] };
+
+export type ReservationTransitionResult =
+  | { ok: true; reservation: IStockReservation }
+  | { ok: false; reason: 'not_found' | 'not_active' | 'expired' }
+  | { ok: false; reason: 'insufficient_stock'; failures: ItemFailure[] };
+
+interface StockChange {
+  productId: Types.ObjectId;
+  quantity: number;
+}
+
+// Per-product update for one reservation's item
+interface StockUpdate {
+  filter: (reservationId: Types.ObjectId, item: IReservationItem) => Record<string, any>;
+  update: (reservationId: Types.ObjectId, item: IReservationItem) => Record<string, any>;
+}
+
+// A conditional update, how to tell it was already done, and its inverse
+interface StockOperation extends StockUpdate {
+  applied: (reservationId: Types.ObjectId, item: IReservationItem) => Record<string, any>;
+  undo: StockUpdate;
+}
+
+const holding = (reservationId: Types.ObjectId, item: IReservationItem) =>
+  ({ _id: item.productId, reservationIds: reservationId });
+const notHolding = (reservationId: Types.ObjectId, item: IReservationItem) =>
+  ({ _id: item.productId, reservationIds: { $ne: reservationId } });
+
+const RETURN: StockUpdate = {
+  filter: holding,
+  update: (reservationId, { quantity }) => ({ $inc: { reservedStock: -quantity }, $pull: { reservationIds: reservationId } })
+};
+
+const RESERVE: StockOperation = {
+  filter: (reservationId, item) => ({
+    ...notHolding(reservationId, item),
+    $expr: { $gte: [{ $subtract: ['$stock', { $ifNull: ['$reservedStock', 0] }] }, item.quantity] }
+  }),
+  update: (reservationId, { quantity }) => ({ $inc: { reservedStock: quantity }, $push: { reservationIds: reservationId } }),
+  applied: holding,
+  undo: RETURN
+};
+
+// Staff may have lowered stock since the reservation, so this can fail too
+const COMMIT: StockOperation = {
+  filter: (reservationId, item) => ({ ...holding(reservationId, item), stock: { $gte: item.quantity } }),
+  update: (reservationId, { quantity }) => ({
+    $inc: { stock: -quantity, reservedStock: -quantity },
+    $pull: { reservationIds: reservationId }
+  }),
+  applied: notHolding,
+  undo: {
+    filter: notHolding,
+    update: (reservationId, { quantity }) => ({
+      $inc: { stock: quantity, reservedStock: quantity },
+      $push: { reservationIds: reservationId }
+    })
+  }
+};
+
+// Both this service's product:<id> entries and the gateway's cached responses
+const invalidateProducts = async (changes: StockChange[]) => {
+  await Promise.all(changes.map(change => cache.del(`product:${change.productId}`)));
+  await purgeGatewayProductCache(changes.map(change => String(change.productId)));
+};
+
+// Explain why an item's conditional update matched nothing
+const describeFailure = async (change: StockChange): Promise<ItemFailure> => {
+  const product = await Product.findById(change.productId).select('stock reservedStock').lean();
+  if (!product) {
+    return { productId: String(change.productId), reason: 'not_found' };
+  }
+  return {
+    productId: String(change.productId),
+    reason: 'insufficient_stock',
+    requested: change.quantity,
+    available: Math.max(0, product.stock - (product.reservedStock || 0))
+  };
+};
+
+const updateAll = async (update: StockUpdate, reservation: IStockReservation) => {
+  const reservationId = reservation._id as Types.ObjectId;
+  await Promise.all(reservation.items.map(item =>
+    Product.updateOne(update.filter(reservationId, item), update.update(reservationId, item))
+  ));
+};
+
+// Apply the operation to every item, skipping items it was already applied
+// to. Returns the failures; when there are any, every item has been changed
+// back. Undoing is keyed on reservationIds too, so it leaves alone the items
+// that never changed.
+const applyToAll = async (operation: StockOperation, reservation: IStockReservation): Promise<ItemFailure[]> => {
+  const reservationId = reservation._id as Types.ObjectId;
+  const outcomes = await Promise.all(reservation.items.map(async item => {
+    const result = await Product.updateOne(operation.filter(reservationId, item), operation.update(reservationId, item));
+    const applied = result.modifiedCount === 1 || await Product.exists(operation.applied(reservationId, item)) !== null;
+    return { item, applied };
+  }));
+
+  const failed = outcomes.filter(outcome => !outcome.applied).map(outcome => outcome.item);
+  if (failed.length > 0) {
+    await updateAll(operation.undo, reservation);
+  }
+  await invalidateProducts(reservation.items);
+
+  return Promise.all(failed.map(describeFailure));
+};
+
+const returnReservedStock = async (reservation: IStockReservation) => {
+  await updateAll(RETURN, reservation);
+  await invalidateProducts(reservation.items);
+  await StockReservation.updateOne({ _id: reservation._id }, { settled: true });
+};
+
+// Check the items and add up repeated products
+const normalizeItems = (items: ReservationItemInput[]) => {
+  const failures: ItemFailure[] = [];
+  const quantities = new Map<string, number>();
+
+  for (const item of items) {
+    const productId = String(item?.productId);
+    if (!mongoose.Types.ObjectId.isValid(productId)) {
+      failures.push({ productId, reason: 'invalid_product_id' });
+    } else if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      failures.push({ productId, reason: 'invalid_quantity', requested: item.quantity });
+    } else {
+      quantities.set(productId, (quantities.get(productId) || 0) + item.quantity);
+    }
+  }
+
+  const changes = Array.from(quantities, ([productId, quantity]) => ({ productId: new Types.ObjectId(productId), quantity }));
+  return { failures, changes };
+};
+
+export const reserveStock = async (items: ReservationItemInput[], ttlSeconds: number, reference?: string): Promise<ReserveResult> => {
+  const { failures: invalid, changes } = normalizeItems(items);
+  if (invalid.length > 0) {
+    return { ok: false, status: 400, failures: invalid };
+  }
+
+  const pending = await StockReservation.create({
+    items: changes,
+    reference,
+    expiresAt: new Date(Date.now() + ttlSeconds * 1000)
+  });
+
+  const failures = await applyToAll(RESERVE, pending);
+  if (failures.length > 0) {
+    await StockReservation.deleteOne({ _id: pending._id, status: 'pending' });
+    return { ok: false, status: 409, failures };
+  }
+
+  const reservation = await StockReservation.findOneAndUpdate(
+    { _id: pending._id, status: 'pending' },
+    { status: 'active', settled: true },
+    { new: true }
+  );
+  if (!reservation) {
+    // The sweep took it for abandoned; make sure none of it stays reserved
+    await updateAll(RETURN, pending);
+    await invalidateProducts(pending.items);
+    throw new Error('Stock reservation was expired while reserving');
+  }
+  return { ok: true, reservation };
+};
+
+// Why an active-only transition didn't match
+const transitionFailure = async (id: string): Promise<ReservationTransitionResult> => {
+  const reservation = await StockReservation.findById(id).select('status expiresAt').lean();
+  if (!reservation) return { ok: false, reason: 'not_found' };
+  if (reservation.status === 'expired' || (reservation.status === 'active' && reservation.expiresAt <= new Date())) {
+    return { ok: false, reason: 'expired' };
+  }
+  return { ok: false, reason: 'not_active' };
+};
+
+// Take the reserved quantities out of stock, or put everything back and
+// reactivate the reservation if an item can't be taken. Also used by the
+// sweep to finish a commit that a crash interrupted.
+const settleCommit = async (reservation: IStockReservation): Promise<ReservationTransitionResult> => {
+  const failures = await applyToAll(COMMIT, reservation);
+  if (failures.length > 0) {
+    // Nothing was taken; leave it active so it can be released or expire
+    await StockReservation.updateOne(
+      { _id: reservation._id, status: 'committed' },
+      { status: 'active', settled: true, $unset: { committedAt: 1 } }
+    );
+    return { ok: false, reason: 'insufficient_stock', failures };
+  }
+
+  await StockReservation.updateOne({ _id: reservation._id }, { settled: true });
+  reservation.settled = true;
+  return { ok: true, reservation };
+};
+
+// Claimed first so a reservation can't be committed twice or released while
+// committing. It stays unsettled until every product is changed.
+export const commitReservation = async (id: string): Promise<ReservationTransitionResult> => {
+  if (!mongoose.Types.ObjectId.isValid(id)) return { ok: false, reason: 'not_found' };
+
+  const reservation = await StockReservation.findOneAndUpdate(
+    { _id: id, status: 'active', expiresAt: { $gt: new Date() } },
+    { status: 'committed', settled: false, committedAt: new Date() },
+    { new: true }
+  );
+  if (!reservation) return transitionFailure(id);
+
+  return settleCommit(reservation);
+};
+
+export const releaseReservation = async (id: string): Promise<ReservationTransitionResult> => {
+  if (!mongoose.Types.ObjectId.isValid(id)) return { ok: false, reason: 'not_found' };
+
+  const reservation = await StockReservation.findOneAndUpdate(
+    { _id: id, status: 'active' },
+    { status: 'released', settled: false, releasedAt: new Date() },
+    { new: true }
+  );
+  if (!reservation) {
+    // Releasing twice, or after expiry, is harmless
+    const current = await StockReservation.findById(id);
+    if (current && (current.status === 'released' || current.status === 'expired')) {
+      return { ok: true, reservation: current };
+    }
+    return current ? { ok: false, reason: 'not_active' } : { ok: false, reason: 'not_found' };
+  }
+
+  await returnReservedStock(reservation);
+  return { ok: true, reservation };
+};
+
+export const getReservation = (id: string) =>
+  mongoose.Types.ObjectId.isValid(id) ? StockReservation.findById(id).lean() : null;
+
+// ===== Expiry =====
+// Release active reservations past their expiry, and pending ones whose
+// reserve never finished. One claim at a time so several instances can sweep
+// at once.
+export const expireReservations = async () => {
+  let expired = 0;
+  for (;;) {
+    const reservation = await StockReservation.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'active', expiresAt: { $lte: new Date() } },
+          { status: 'pending', updatedAt: { $lte: new Date(Date.now() - UNSETTLED_GRACE_MS) } }
+        ]
+      },
+      { status: 'expired', settled: false, releasedAt: new Date() },
+      { new: true }
+    );
+    if (!reservation) break;
+
+    await returnReservedStock(reservation);
+    expired++;
+  }
+  if (expired > 0) {
+    logger.info('Expired stock reservations released', { count: expired });
+  }
+  return expired;
+};
+
+// Finish commits and releases that a crash left half done. Claiming bumps
+// updatedAt, which keeps other instances off it for the grace period.
+export const settleReservations = async () => {
+  let settled = 0;
+  for (;;) {
+    const reservation = await StockReservation.findOneAndUpdate(
+      {
+        settled: false,
+        status: { $in: ['committed', 'released', 'expired'] },
+        updatedAt: { $lte: new Date(Date.now() - UNSETTLED_GRACE_MS) }
+      },
+      { settled: false },
+      { new: true }
+    );
+    if (!reservation) break;
+
+    if (reservation.status === 'committed') {
+      await settleCommit(reservation);
+    } else {
+      await returnReservedStock(reservation);
+    }
+    settled++;
+  }
+  if (settled > 0) {
+    logger.warn('Unsettled stock reservations finished', { count: settled });
+  }
+  return settled;
+};
+
+export const startReservationExpiry = () => {
+  const timer = setInterval(() => {
+    expireReservations()
+      .then(settleReservations)
+      .catch(error => logger.error('Reservation expiry error', error));
+  }, EXPIRY_SWEEP_INTERVAL_MS);
+  timer.unref();
+};
@@ -0,0 +1,171 @@
+// ===== Mock OpenID Connect Provider =====
+// A throwaway identity provider for trying OIDC login locally. It implements
+// discovery, JWKS, the authorization endpoint (a form asking who to sign in
+// as, skipped when login_hint is given) and the token endpoint with PKCE.
+// Nothing is persisted; the signing key is new on every start.
+//
+//   npm run mock-idp
+//
+// Then configure user-service with:
+//   OIDC_PROVIDERS=mock
+//   OIDC_MOCK_ISSUER=http://localhost:4010
+//   OIDC_MOCK_CLIENT_ID=ecommerce
+//
+// MOCK_IDP_PORT, MOCK_IDP_ISSUER, MOCK_IDP_CLIENT_ID and MOCK_IDP_CLIENT_SECRET
+// change the defaults. Emails listed in MOCK_IDP_UNVERIFIED_EMAILS come back
+// with email_verified=false.
+const crypto = require('crypto');
+const http = require('http');
+const jwt = require('jsonwebtoken');
+
+const PORT = Number(process.env.MOCK_IDP_PORT) || 4010;
+const ISSUER = process.env.MOCK_IDP_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_IDP_CLIENT_ID || 'ecommerce';
+const CLIENT_SECRET = process.env.MOCK_IDP_CLIENT_SECRET;
+const UNVERIFIED_EMAILS = (process.env.MOCK_IDP_UNVERIFIED_EMAILS || '').split(',').map(email => email.trim().toLowerCase());
+const CODE_TTL_MS = 60000;
+const KEY_ID = `mock-${Date.now()}`;
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const codes = new Map();
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const escapeHtml = value => String(value).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Stable subject per email, like a real provider's user id
+const subjectFor = email => crypto.createHash('sha256').update(`${ISSUER}|${email}`).digest('hex').slice(0, 24);
+
+const readBody = req => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(new URLSearchParams(body)));
+  req.on('error', reject);
+});
+
+const loginForm = params => `<!doctype html>
+<html><body>
+  <h1>Mock identity provider</h1>
+  <form method="get" action="/authorize">
+    ${Array.from(params.entries()).map(([name, value]) =>
+      `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`).join('\n    ')}
+    <p><label>Email <input name="login_hint" type="email" required></label></p>
+    <p><button type="submit">Sign in</button></p>
+  </form>
+</body></html>`;
+
+const authorize = (req, res, params) => {
+  const redirectUri = params.get('redirect_uri');
+  if (params.get('client_id') !== CLIENT_ID || !redirectUri) {
+    return sendJson(res, 400, { error: 'invalid_request', error_description: 'Unknown client or missing redirect_uri' });
+  }
+  if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+    return sendJson(res, 400, { error: 'invalid_request', error_description: 'Only the code flow with S256 PKCE is supported' });
+  }
+
+  const email = params.get('login_hint');
+  if (!email) {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    return res.end(loginForm(params));
+  }
+
+  const code = crypto.randomBytes(24).toString('base64url');
+  codes.set(code, {
+    email: email.toLowerCase(),
+    redirectUri,
+    codeChallenge: params.get('code_challenge'),
+    nonce: params.get('nonce'),
+    expiresAt: Date.now() + CODE_TTL_MS
+  });
+
+  const location = new URL(redirectUri);
+  location.searchParams.set('code', code);
+  if (params.get('state')) location.searchParams.set('state', params.get('state'));
+  res.writeHead(302, { Location: location.toString() });
+  res.end();
+};
+
+const token = async (req, res) => {
+  const params = await readBody(req);
+  const code = params.get('code');
+  const grant = code && codes.get(code);
+  codes.delete(code);
+
+  if (params.get('grant_type') !== 'authorization_code' || !grant || grant.expiresAt < Date.now()) {
+    return sendJson(res, 400, { error: 'invalid_grant' });
+  }
+  if (params.get('client_id') !== CLIENT_ID || (CLIENT_SECRET && params.get('client_secret') !== CLIENT_SECRET)) {
+    return sendJson(res, 401, { error: 'invalid_client' });
+  }
+  if (params.get('redirect_uri') !== grant.redirectUri) {
+    return sendJson(res, 400, { error: 'invalid_grant', error_description: 'redirect_uri mismatch' });
+  }
+  const challenge = crypto.createHash('sha256').update(params.get('code_verifier') || '').digest('base64url');
+  if (challenge !== grant.codeChallenge) {
+    return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const idToken = jwt.sign({
+    email: grant.email,
+    email_verified: !UNVERIFIED_EMAILS.includes(grant.email),
+    name: grant.email.split('@')[0],
+    ...(grant.nonce ? { nonce: grant.nonce } : {})
+  }, privateKey, {
+    algorithm: 'RS256',
+    keyid: KEY_ID,
+    issuer: ISSUER,
+    audience: CLIENT_ID,
+    subject: subjectFor(grant.email),
+    expiresIn: 300
+  });
+
+  sendJson(res, 200, {
+    access_token: crypto.randomBytes(24).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken
+  });
+};
+
+const server = http.createServer(async (req, res) => {
+  try {
+    const url = new URL(req.url, ISSUER);
+
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        token_endpoint_auth_methods_supported: ['client_secret_post', 'none']
+      });
+    }
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      return sendJson(res, 200, {
+        keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }]
+      });
+    }
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      return authorize(req, res, url.searchParams);
+    }
+    if (req.method === 'POST' && url.pathname === '/token') {
+      return await token(req, res);
+    }
+
+    sendJson(res, 404, { error: 'not_found' });
+  } catch (error) {
+    console.error('Mock IdP error', error);
+    sendJson(res, 500, { error: 'server_error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC provider at ${ISSUER} (client_id ${CLIENT_ID})`);
+});
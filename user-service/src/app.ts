@@ -2,31 +2,77 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
-import { connectDB } from './config/database';
-import authRoutes from './routes/auth';
 
 dotenv.config();
 
+// Imported after dotenv so module-level settings pick up .env
+import { connectDB } from './config/database';
+import { loadSigningKeys, getJwks } from './config/signingKeys';
+import { loadOidcProviders } from './config/oidcProviders';
+import { loadInternalApiToken } from './config/internalApi';
+import authRoutes from './routes/auth';
+import userRoutes from './routes/users';
+import apiKeyRoutes from './routes/apiKeys';
+import internalRoutes from './routes/internal';
+import { registrationQueue, getQueueStats } from './queues/registrationQueue';
+import { HealthCheck, mongoCheck, redisCheck, livenessHandler, readinessHandler } from './health/checks';
+import { initMetrics, metricsMiddleware, metricsEndpoint, metricsSummaryEndpoint } from './metrics/prometheus';
+import { logger, initLogger, requestContextMiddleware, requestLoggingMiddleware } from './logging/logger';
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+initMetrics('user-service', Number(PORT));
+initLogger('user-service');
+
+// Exits if no signing key or internal API token is configured, or an
+// identity provider is half-configured
+loadSigningKeys();
+loadInternalApiToken();
+loadOidcProviders();
+
 // Middleware
+app.use(requestContextMiddleware);
+app.use(requestLoggingMiddleware);
+app.use(metricsMiddleware);
 app.use(helmet());
 app.use(cors());
 app.use(express.json());
 
+// Public keys for verifying access tokens; verifiers cache this
+app.get('/.well-known/jwks.json', (req, res) => {
+  res.set('Cache-Control', 'public, max-age=300');
+  res.json(getJwks());
+});
+
 // Routes
 app.use('/auth', authRoutes);
+app.use('/users', userRoutes);
+app.use('/api-keys', apiKeyRoutes);
+app.use('/internal', internalRoutes);
 
-// Health check
-app.get('/health', (req, res) => {
-  res.json({ status: 'OK', service: 'User Service' });
-});
+// Health checks
+const queueCheck: HealthCheck = {
+  name: 'registrationQueue',
+  critical: false, // Synchronous registration still works without the queue
+  run: async () => {
+    await registrationQueue.isReady();
+    return getQueueStats();
+  }
+};
+
+app.get('/health', livenessHandler('User Service'));
+app.get('/health/live', livenessHandler('User Service'));
+app.get('/health/ready', readinessHandler('User Service', [mongoCheck, redisCheck, queueCheck]));
+
+// Metrics
+app.get('/metrics', metricsEndpoint);
+app.get('/metrics/summary', metricsSummaryEndpoint);
 
 // Connect to MongoDB and start server
 connectDB().then(() => {
   app.listen(PORT, () => {
-    console.log(`User Service running on port ${PORT}`);
+    logger.info(`User Service running on port ${PORT}`);
   });
 });
 
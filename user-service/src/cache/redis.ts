@@ -1,5 +1,6 @@
 // ===== Optimized Redis Cache with Pattern Deletion & Connection Pooling =====
 import Redis from 'ioredis';
+import { logger } from '../logging/logger';
 
 const redis = new Redis({
   host: process.env.REDIS_HOST || 'redis',
@@ -22,19 +23,19 @@ const redis = new Redis({
 });
 
 redis.on('connect', () => {
-  console.log('[OK] Redis connected');
+  logger.info('Redis connected');
 });
 
 redis.on('ready', () => {
-  console.log('[OK] Redis ready for commands');
+  logger.info('Redis ready for commands');
 });
 
 redis.on('error', (err) => {
-  console.error('[ERROR] Redis error:', err.message);
+  logger.error('Redis error', { error: err.message });
 });
 
 redis.on('close', () => {
-  console.log('[WARN] Redis connection closed');
+  logger.warn('Redis connection closed');
 });
 
 // Cache helper functions with enhanced capabilities
@@ -44,7 +45,7 @@ export const cache = {
       const data = await redis.get(key);
       return data ? JSON.parse(data) : null;
     } catch (error) {
-      console.error('Cache get error:', error);
+      logger.error('Cache get error', error);
       return null;
     }
   },
@@ -54,7 +55,7 @@ export const cache = {
       await redis.setex(key, ttlSeconds, JSON.stringify(data));
       return true;
     } catch (error) {
-      console.error('Cache set error:', error);
+      logger.error('Cache set error', error);
       return false;
     }
   },
@@ -64,7 +65,7 @@ export const cache = {
       await redis.del(key);
       return true;
     } catch (error) {
-      console.error('Cache delete error:', error);
+      logger.error('Cache delete error', error);
       return false;
     }
   },
@@ -87,7 +88,7 @@ export const cache = {
       
       return deletedCount;
     } catch (error) {
-      console.error('Cache pattern delete error:', error);
+      logger.error('Cache pattern delete error', error);
       return 0;
     }
   },
@@ -99,7 +100,7 @@ export const cache = {
       const values = await redis.mget(keys);
       return values.map(v => v ? JSON.parse(v) : null);
     } catch (error) {
-      console.error('Cache mget error:', error);
+      logger.error('Cache mget error', error);
       return keys.map(() => null);
     }
   },
@@ -114,7 +115,7 @@ export const cache = {
       await pipeline.exec();
       return true;
     } catch (error) {
-      console.error('Cache mset error:', error);
+      logger.error('Cache mset error', error);
       return false;
     }
   },
@@ -124,7 +125,7 @@ export const cache = {
     try {
       return await redis.exists(key) === 1;
     } catch (error) {
-      console.error('Cache exists error:', error);
+      logger.error('Cache exists error', error);
       return false;
     }
   },
@@ -134,7 +135,7 @@ export const cache = {
     try {
       return await redis.ttl(key);
     } catch (error) {
-      console.error('Cache TTL error:', error);
+      logger.error('Cache TTL error', error);
       return -1;
     }
   },
@@ -144,7 +145,7 @@ export const cache = {
       await redis.flushall();
       return true;
     } catch (error) {
-      console.error('Cache flush error:', error);
+      logger.error('Cache flush error', error);
       return false;
     }
   },
@@ -156,7 +157,7 @@ export const cache = {
       const dbSize = await redis.dbsize();
       return { info, dbSize };
     } catch (error) {
-      console.error('Cache stats error:', error);
+      logger.error('Cache stats error', error);
       return null;
     }
   }
@@ -1,5 +1,6 @@
 // ===== Optimized Database Configuration for 500+ Concurrent Users =====
 import mongoose from 'mongoose';
+import { logger } from '../logging/logger';
 
 export const connectDB = async () => {
   try {
@@ -21,31 +22,31 @@ export const connectDB = async () => {
       wtimeoutMS: 2500,
     });
     
-    console.log(`[OK] MongoDB Connected: ${conn.connection.host}`);
-    console.log(`[INFO] Connection Pool - Min: 20, Max: 50`);
+    logger.info(`MongoDB Connected: ${conn.connection.host}`);
+    logger.info(`Connection Pool - Min: 20, Max: 50`);
     
     // Monitor connection events
     mongoose.connection.on('connected', () => {
-      console.log('[OK] Mongoose connected to DB');
+      logger.info('Mongoose connected to DB');
     });
     
     mongoose.connection.on('error', (err) => {
-      console.error('[ERROR] Mongoose connection error:', err);
+      logger.error('Mongoose connection error', err);
     });
     
     mongoose.connection.on('disconnected', () => {
-      console.log('[WARN] Mongoose disconnected');
+      logger.warn('Mongoose disconnected');
     });
 
     // Graceful shutdown
     process.on('SIGINT', async () => {
       await mongoose.connection.close();
-      console.log('MongoDB connection closed through app termination');
+      logger.info('MongoDB connection closed through app termination');
       process.exit(0);
     });
     
   } catch (error) {
-    console.error('[ERROR] Database connection error:', error);
+    logger.error('Database connection error', error);
     process.exit(1);
   }
 };
\ No newline at end of file
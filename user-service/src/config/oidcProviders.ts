@@ -0,0 +1,69 @@
+// ===== OpenID Connect Providers =====
+// External identity providers users can sign in with. OIDC_PROVIDERS lists
+// provider ids (e.g. "acme,globex"); each one is configured with:
+//   OIDC_<ID>_ISSUER         issuer URL; endpoints come from its discovery document
+//   OIDC_<ID>_CLIENT_ID
+//   OIDC_<ID>_CLIENT_SECRET  optional; public clients rely on PKCE alone
+//   OIDC_<ID>_NAME           shown on the login page (default: the id)
+//   OIDC_<ID>_SCOPES         default "openid email profile"
+import { logger } from '../logging/logger';
+
+export interface OidcProvider {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+}
+
+// Where providers send the browser back to; the frontend posts code and state on
+export const OIDC_REDIRECT_URI = process.env.OIDC_REDIRECT_URI ||
+  `${process.env.APP_URL || 'http://localhost'}/auth/oidc/callback`;
+
+let providers = new Map<string, OidcProvider>();
+
+const envName = (id: string, setting: string) => `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_${setting}`;
+
+// Throws when a listed provider is incomplete
+const readProviders = () => {
+  const loaded = new Map<string, OidcProvider>();
+  const ids = (process.env.OIDC_PROVIDERS || '').split(',').map(id => id.trim().toLowerCase()).filter(Boolean);
+
+  for (const id of ids) {
+    if (!/^[a-z0-9-]+$/.test(id)) {
+      throw new Error(`Invalid provider id "${id}": use lowercase letters, digits and dashes`);
+    }
+    const issuer = process.env[envName(id, 'ISSUER')];
+    const clientId = process.env[envName(id, 'CLIENT_ID')];
+    if (!issuer || !clientId) {
+      throw new Error(`${envName(id, 'ISSUER')} and ${envName(id, 'CLIENT_ID')} are required`);
+    }
+    loaded.set(id, {
+      id,
+      name: process.env[envName(id, 'NAME')] || id,
+      issuer: issuer.replace(/\/+$/, ''),
+      clientId,
+      clientSecret: process.env[envName(id, 'CLIENT_SECRET')] || undefined,
+      scopes: process.env[envName(id, 'SCOPES')] || 'openid email profile'
+    });
+  }
+  return loaded;
+};
+
+// Called once at startup; a half-configured provider is a deployment mistake
+export const loadOidcProviders = () => {
+  try {
+    providers = readProviders();
+    if (providers.size > 0) {
+      logger.info('OIDC providers loaded', { providers: Array.from(providers.keys()), redirectUri: OIDC_REDIRECT_URI });
+    }
+  } catch (error: any) {
+    logger.error('OIDC provider configuration error', { error: error.message });
+    process.exit(1);
+  }
+};
+
+export const getOidcProvider = (id: string) => providers.get(id);
+
+export const listOidcProviders = () => Array.from(providers.values());
@@ -0,0 +1,93 @@
+// ===== Access Token Signing Keys =====
+// Access tokens are signed with RS256. Keys are PEM files in JWT_KEYS_DIR,
+// named <kid>.pem:
+//   - private keys can sign; JWT_ACTIVE_KEY_ID picks the one that does
+//     (default: the last kid in sort order, so date-named keys rotate in)
+//   - public keys are verify-only, for retired keys whose tokens may still
+//     be valid
+// Every key is published at /.well-known/jwks.json.
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../logging/logger';
+
+export const JWT_ALGORITHM = 'RS256';
+
+interface SigningKey {
+  kid: string;
+  publicKey: KeyObject;
+  privateKey?: KeyObject;
+}
+
+let keys = new Map<string, SigningKey>();
+let activeKey: Required<SigningKey> | null = null;
+
+const readKey = (kid: string, pem: string): SigningKey => {
+  if (pem.includes('PRIVATE KEY')) {
+    const privateKey = crypto.createPrivateKey(pem);
+    return { kid, privateKey, publicKey: crypto.createPublicKey(privateKey) };
+  }
+  return { kid, publicKey: crypto.createPublicKey(pem) };
+};
+
+// Throws when no usable signing key is configured
+const readSigningKeys = () => {
+  const dir = process.env.JWT_KEYS_DIR;
+  if (!dir) {
+    throw new Error('JWT_KEYS_DIR is not set');
+  }
+
+  const loaded = new Map<string, SigningKey>();
+  for (const file of fs.readdirSync(dir).filter(name => name.endsWith('.pem')).sort()) {
+    const kid = path.basename(file, '.pem');
+    const key = readKey(kid, fs.readFileSync(path.join(dir, file), 'utf8'));
+    if (key.publicKey.asymmetricKeyType !== 'rsa') {
+      throw new Error(`Key ${kid} is not an RSA key`);
+    }
+    loaded.set(kid, key);
+  }
+
+  const signers = Array.from(loaded.values()).filter(key => key.privateKey);
+  const activeKid = process.env.JWT_ACTIVE_KEY_ID || signers[signers.length - 1]?.kid;
+  const active = activeKid ? loaded.get(activeKid) : undefined;
+  if (!active?.privateKey) {
+    throw new Error(activeKid
+      ? `Active key ${activeKid} has no private key in ${dir}`
+      : `No private key found in ${dir}`);
+  }
+
+  return { loaded, active: active as Required<SigningKey> };
+};
+
+// Called once at startup; refuses to start rather than issue tokens nobody can verify
+export const loadSigningKeys = () => {
+  try {
+    const { loaded, active } = readSigningKeys();
+    keys = loaded;
+    activeKey = active;
+    logger.info('Signing keys loaded', { activeKid: active.kid, kids: Array.from(loaded.keys()) });
+  } catch (error: any) {
+    logger.error('Signing key configuration error', { error: error.message });
+    process.exit(1);
+  }
+};
+
+export const getActiveSigningKey = () => {
+  if (!activeKey) {
+    throw new Error('Signing keys have not been loaded');
+  }
+  return activeKey;
+};
+
+export const getVerificationKey = (kid: string | undefined) =>
+  kid ? keys.get(kid)?.publicKey : undefined;
+
+// Public half of every key, in JWK Set format
+export const getJwks = () => ({
+  keys: Array.from(keys.values()).map(key => ({
+    ...key.publicKey.export({ format: 'jwk' }),
+    kid: key.kid,
+    alg: JWT_ALGORITHM,
+    use: 'sig'
+  }))
+});
@@ -0,0 +1,226 @@
+// ===== Address Book =====
+// Saved addresses live on the user document. One address can be the default
+// for shipping and one (possibly the same) for billing.
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { IAddress, IUser, User } from '../models/User';
+import { ADDRESS_LIMITS, validateAddress, pickAddressFields } from '../validation/address';
+import { logger } from '../logging/logger';
+
+type DefaultType = 'shipping' | 'billing';
+
+const DEFAULT_FIELDS: Record<DefaultType, 'defaultShippingAddressId' | 'defaultBillingAddressId'> = {
+  shipping: 'defaultShippingAddressId',
+  billing: 'defaultBillingAddressId'
+};
+
+export const formatAddress = (user: Pick<IUser, 'defaultShippingAddressId' | 'defaultBillingAddressId'>, address: IAddress) => ({
+  id: address._id,
+  label: address.label,
+  recipient: address.recipient,
+  line1: address.line1,
+  line2: address.line2,
+  city: address.city,
+  postcode: address.postcode,
+  country: address.country,
+  phone: address.phone,
+  isDefaultShipping: !!user.defaultShippingAddressId?.equals(address._id),
+  isDefaultBilling: !!user.defaultBillingAddressId?.equals(address._id)
+});
+
+const addressBook = (user: IUser) => ({
+  addresses: user.addresses.map(address => formatAddress(user, address)),
+  defaultShippingAddressId: user.defaultShippingAddressId || null,
+  defaultBillingAddressId: user.defaultBillingAddressId || null
+});
+
+// Apply defaultShipping / defaultBilling flags from a request body
+const applyDefaultFlags = (user: IUser, address: IAddress, body: Record<string, any>) => {
+  if (body.defaultShipping === true) user.defaultShippingAddressId = address._id;
+  if (body.defaultBilling === true) user.defaultBillingAddressId = address._id;
+};
+
+const loadUser = async (req: Request, res: Response) => {
+  const user = await User.findById((req as any).userId).select('addresses defaultShippingAddressId defaultBillingAddressId');
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return null;
+  }
+  return user;
+};
+
+const findAddress = (req: Request, res: Response, user: IUser) => {
+  const { addressId } = req.params;
+  const address = mongoose.Types.ObjectId.isValid(addressId) ? user.addresses.id(addressId) : null;
+  if (!address) {
+    res.status(404).json({ error: 'Address not found' });
+    return null;
+  }
+  return address;
+};
+
+export const listAddresses = async (req: Request, res: Response) => {
+  try {
+    const user = await loadUser(req, res);
+    if (!user) return;
+
+    res.json(addressBook(user));
+  } catch (error) {
+    logger.error('List addresses error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getAddress = async (req: Request, res: Response) => {
+  try {
+    const user = await loadUser(req, res);
+    if (!user) return;
+
+    const address = findAddress(req, res, user);
+    if (!address) return;
+
+    res.json({ address: formatAddress(user, address) });
+  } catch (error) {
+    logger.error('Get address error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const createAddress = async (req: Request, res: Response) => {
+  try {
+    const fields = pickAddressFields(req.body);
+    const errors = validateAddress(fields);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid address', details: errors });
+    }
+
+    const user = await loadUser(req, res);
+    if (!user) return;
+
+    if (user.addresses.length >= ADDRESS_LIMITS.MAX_ADDRESSES) {
+      return res.status(400).json({ error: `At most ${ADDRESS_LIMITS.MAX_ADDRESSES} addresses can be saved` });
+    }
+
+    user.addresses.push(fields);
+    const address = user.addresses[user.addresses.length - 1];
+
+    // The first address becomes the default for both
+    applyDefaultFlags(user, address, req.body);
+    if (!user.defaultShippingAddressId) user.defaultShippingAddressId = address._id;
+    if (!user.defaultBillingAddressId) user.defaultBillingAddressId = address._id;
+
+    await user.save();
+
+    res.status(201).json({
+      message: 'Address added successfully',
+      address: formatAddress(user, address)
+    });
+  } catch (error) {
+    logger.error('Create address error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateAddress = async (req: Request, res: Response) => {
+  try {
+    const user = await loadUser(req, res);
+    if (!user) return;
+
+    const address = findAddress(req, res, user);
+    if (!address) return;
+
+    // Validate the merged result so partial updates can't break the address
+    const merged = { ...pickAddressFields(address.toObject()), ...pickAddressFields(req.body) };
+    const errors = validateAddress(merged);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid address', details: errors });
+    }
+
+    address.set(merged);
+    applyDefaultFlags(user, address, req.body);
+    await user.save();
+
+    res.json({
+      message: 'Address updated successfully',
+      address: formatAddress(user, address)
+    });
+  } catch (error) {
+    logger.error('Update address error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const deleteAddress = async (req: Request, res: Response) => {
+  try {
+    const user = await loadUser(req, res);
+    if (!user) return;
+
+    const address = findAddress(req, res, user);
+    if (!address) return;
+
+    // Deleting a default leaves that default unset
+    for (const field of Object.values(DEFAULT_FIELDS)) {
+      if (user[field]?.equals(address._id)) {
+        user[field] = undefined;
+      }
+    }
+    address.deleteOne();
+    await user.save();
+
+    res.json({ message: 'Address deleted successfully' });
+  } catch (error) {
+    logger.error('Delete address error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Body: { "type": "shipping" | "billing" }
+export const setDefaultAddress = async (req: Request, res: Response) => {
+  try {
+    const { type } = req.body;
+    if (type !== 'shipping' && type !== 'billing') {
+      return res.status(400).json({ error: 'Type must be shipping or billing' });
+    }
+
+    const user = await loadUser(req, res);
+    if (!user) return;
+
+    const address = findAddress(req, res, user);
+    if (!address) return;
+
+    user[DEFAULT_FIELDS[type as DefaultType]] = address._id;
+    await user.save();
+
+    res.json({
+      message: `Default ${type} address updated`,
+      ...addressBook(user)
+    });
+  } catch (error) {
+    logger.error('Set default address error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Internal =====
+
+export const getUserAddress = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const user = await User.findById(userId).select('addresses defaultShippingAddressId defaultBillingAddressId');
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const address = findAddress(req, res, user);
+    if (!address) return;
+
+    res.json({ address: formatAddress(user, address) });
+  } catch (error) {
+    logger.error('Internal get address error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
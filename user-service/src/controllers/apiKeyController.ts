@@ -0,0 +1,130 @@
+// ===== API Key Management =====
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { ApiKey, API_KEY_SCOPES } from '../models/ApiKey';
+import {
+  API_KEY_LIMITS,
+  countActiveApiKeys,
+  createApiKey,
+  formatApiKey,
+  revokeApiKey,
+  verifyApiKey
+} from '../services/apiKeys';
+import { recordAuditEvent } from '../services/audit';
+import { clientIp } from '../middleware/clientIp';
+import { logger } from '../logging/logger';
+
+const isAdmin = (req: Request) => ((req as any).userRoles || []).includes('admin');
+
+// ===== Create - staff and admins =====
+export const createKey = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { name, scopes, rateLimitPerMinute = API_KEY_LIMITS.DEFAULT_RATE_LIMIT } = req.body;
+
+    if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+      return res.status(400).json({ error: 'Name is required (at most 100 characters)' });
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return res.status(400).json({ error: 'Scopes must be a non-empty array' });
+    }
+
+    const invalid = scopes.filter(scope => !API_KEY_SCOPES.includes(scope));
+    if (invalid.length > 0) {
+      return res.status(400).json({
+        error: `Invalid scopes: ${invalid.join(', ')}. Allowed: ${API_KEY_SCOPES.join(', ')}`
+      });
+    }
+
+    if (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1 || rateLimitPerMinute > API_KEY_LIMITS.MAX_RATE_LIMIT) {
+      return res.status(400).json({ error: `rateLimitPerMinute must be an integer from 1 to ${API_KEY_LIMITS.MAX_RATE_LIMIT}` });
+    }
+
+    if (await countActiveApiKeys(userId) >= API_KEY_LIMITS.MAX_KEYS_PER_USER) {
+      return res.status(400).json({ error: `At most ${API_KEY_LIMITS.MAX_KEYS_PER_USER} active API keys are allowed` });
+    }
+
+    const { apiKey, key } = await createApiKey(userId, { name: name.trim(), scopes, rateLimitPerMinute });
+
+    await recordAuditEvent({
+      type: 'api_key_created',
+      userId,
+      ip: clientIp(req),
+      details: { keyId: String(apiKey._id), name: apiKey.name, scopes: apiKey.scopes }
+    });
+
+    res.status(201).json({
+      message: 'API key created. Store it now: it will not be shown again.',
+      key,
+      apiKey: formatApiKey(apiKey)
+    });
+  } catch (error) {
+    logger.error('Create API key error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== List - own keys; admins may pass ?userId= =====
+export const listKeys = async (req: Request, res: Response) => {
+  try {
+    const ownerId = req.query.userId && isAdmin(req) ? String(req.query.userId) : (req as any).userId;
+
+    const apiKeys = await ApiKey.find({ userId: String(ownerId) }).sort({ createdAt: -1 });
+
+    res.json({ apiKeys: apiKeys.map(formatApiKey) });
+  } catch (error) {
+    logger.error('List API keys error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Revoke - owner or admin =====
+export const revokeKey = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).userId;
+
+    const apiKey = mongoose.Types.ObjectId.isValid(id) ? await ApiKey.findById(id).lean() : null;
+    // Other users' keys look the same as missing ones
+    if (!apiKey || (apiKey.userId !== String(userId) && !isAdmin(req))) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    const revoked = await revokeApiKey(id, 'revoked');
+    if (revoked) {
+      await recordAuditEvent({
+        type: 'api_key_revoked',
+        userId: apiKey.userId,
+        actorId: String(userId),
+        ip: clientIp(req),
+        details: { keyId: id, name: apiKey.name }
+      });
+    }
+
+    res.json({ message: revoked ? 'API key revoked' : 'API key was already revoked' });
+  } catch (error) {
+    logger.error('Revoke API key error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Verify - internal, called by the gateway =====
+export const verifyKey = async (req: Request, res: Response) => {
+  try {
+    const { key } = req.body;
+    if (typeof key !== 'string' || !key) {
+      return res.status(400).json({ error: 'API key is required' });
+    }
+
+    const principal = await verifyApiKey(key);
+    if (!principal) {
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+
+    res.json({ principal });
+  } catch (error) {
+    logger.error('Verify API key error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
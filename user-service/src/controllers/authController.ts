@@ -1,9 +1,23 @@
 // ===== Optimized Auth Controller with Reduced Bcrypt Rounds & Caching =====
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { User } from '../models/User';
+import { IUser, User } from '../models/User';
 import { cache } from '../cache/redis';
+import { issueTokens, tokenClaims, revokeSessions, revokeAllSessions, revokeOtherSessions, rotateRefreshToken } from '../services/tokenService';
+import { sendMail } from '../mail/transport';
+import { passwordResetEmail } from '../mail/templates';
+import { sendVerificationEmail, claimResendSlot } from '../services/emailVerification';
+import { registerUser, validateRegistration, toUserProfile } from '../services/userRegistration';
+import { enqueueRegistration, getRegistrationStatus } from '../queues/registrationQueue';
+import { checkLoginAllowed, recordLoginFailure, clearLoginFailures } from '../services/loginThrottle';
+import { tokenCacheKey } from '../middleware/auth';
+import { deleteUserAccount } from '../services/accountDeletion';
+import { createOneTimeToken, consumeOneTimeToken, invalidateOneTimeTokens } from '../services/oneTimeTokens';
+import { SessionContext, sessionContext } from '../services/sessions';
+import { recordAuditEvent } from '../services/audit';
+import { createMfaChallenge, findMfaChallenge, completeMfaChallenge, mfaEnrolmentRequired, MFA_CHALLENGE_TTL_SECONDS } from '../services/mfa';
+import { clientIp } from '../middleware/clientIp';
+import { logger } from '../logging/logger';
 
 // ===== Performance Constants =====
 // Reduced from 10 to 8 rounds: ~4x faster hashing with minimal security impact
@@ -13,72 +27,105 @@ const BCRYPT_ROUNDS = 8;
 // Cache TTL (in seconds)
 const CACHE_TTL = {
   USER_PROFILE: 300,    // 5 minutes - user profiles don't change often
-  JWT_TOKEN: 300,       // 5 minutes - cache validated tokens
 };
 
+const PASSWORD_RESET_TTL_SECONDS = Number(process.env.PASSWORD_RESET_TTL_SECONDS) || 3600; // 1 hour
+const MIN_PASSWORD_LENGTH = 6;
+
+// Users created through an identity provider set a password with the reset flow
+const NO_PASSWORD_ERROR = 'This account has no password. Use forgot password to set one.';
+
 export const register = async (req: Request, res: Response) => {
   try {
-    const { email, password, name } = req.body;
-
-    // Validation
-    if (!email || !password || !name) {
-      return res.status(400).json({ error: 'Email, password, and name are required' });
+    const result = await registerUser(req.body, sessionContext(req));
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
     }
 
-    // Check if user already exists (with cache check first)
-    const cacheKey = `user:email:${email.toLowerCase()}`;
-    const cachedUser = await cache.get(cacheKey);
-    if (cachedUser) {
-      return res.status(400).json({ error: 'User already exists' });
-    }
+    res.status(201).json({
+      message: 'User created successfully',
+      ...result.tokens,
+      user: result.user
+    });
+  } catch (error) {
+    logger.error('Registration error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
 
-    const existingUser = await User.findOne({ email: email.toLowerCase() }).lean();
-    if (existingUser) {
-      // Cache the existence for future checks
-      await cache.set(cacheKey, { exists: true }, CACHE_TTL.USER_PROFILE);
-      return res.status(400).json({ error: 'User already exists' });
+// ===== Async Register - Hash and create the user in the registration queue =====
+export const registerAsync = async (req: Request, res: Response) => {
+  try {
+    const invalid = validateRegistration(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
     }
 
-    // Hash password with optimized rounds
-    const hashedPassword = await bcrypt.hash(password, BCRYPT_ROUNDS);
+    const { email, password, name } = req.body;
+    const requestId = await enqueueRegistration({ email, password, name }, sessionContext(req));
 
-    // Create user
-    const user = new User({
-      email: email.toLowerCase(),
-      password: hashedPassword,
-      name
+    res.status(202).json({
+      message: 'Registration queued',
+      requestId,
+      statusUrl: `/auth/register/status/${requestId}`
     });
+  } catch (error) {
+    logger.error('Async registration error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
 
-    await user.save();
-
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id },
-      process.env.JWT_SECRET || 'fallback-secret',
-      { expiresIn: '7d' }
-    );
-
-    // Cache user profile (without password)
-    const userProfile = {
-      id: user._id,
-      email: user.email,
-      name: user.name,
-      createdAt: user.createdAt
-    };
-    await cache.set(`user:profile:${user._id}`, userProfile, CACHE_TTL.USER_PROFILE);
-    await cache.set(`user:email:${email.toLowerCase()}`, { exists: true, userId: user._id }, CACHE_TTL.USER_PROFILE);
+export const registrationStatus = async (req: Request, res: Response) => {
+  try {
+    const status = await getRegistrationStatus(req.params.requestId);
+    if (!status) {
+      return res.status(404).json({ error: 'Unknown or expired registration request' });
+    }
 
-    res.status(201).json({
-      message: 'User created successfully',
-      token,
-      user: userProfile
-    });
+    res.json({ requestId: req.params.requestId, ...status });
   } catch (error) {
-    console.error('Registration error:', error);
+    logger.error('Registration status error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
 
+// Last step of a login: clear failures, start a session, cache the profile
+const completeLogin = async (user: IUser, context: SessionContext) => {
+  await clearLoginFailures(user.email);
+  await User.updateOne({ _id: user._id }, { lastLoginAt: new Date() });
+
+  // Start a session: short-lived access token plus refresh token
+  const tokens = await issueTokens(user._id as string, tokenClaims(user), context);
+
+  // Cache user profile for subsequent requests
+  const userProfile = toUserProfile(user);
+  await cache.set(`user:profile:${user._id}`, userProfile, CACHE_TTL.USER_PROFILE);
+
+  return {
+    message: 'Login successful',
+    ...tokens,
+    user: userProfile,
+    // Roles under the MFA policy are withheld until MFA is set up
+    ...(mfaEnrolmentRequired(user) ? { mfaEnrolmentRequired: true } : {})
+  };
+};
+
+// After the first factor (password or identity provider). With MFA on, that
+// only earns a challenge for the second step; failures are cleared once the
+// second factor is in too.
+export const loginResponse = async (user: IUser, context: SessionContext) => {
+  if (user.mfa?.enabled) {
+    const challengeToken = await createMfaChallenge(String(user._id));
+    return {
+      message: 'MFA code required',
+      mfaRequired: true,
+      challengeToken,
+      expiresIn: MFA_CHALLENGE_TTL_SECONDS
+    };
+  }
+  return completeLogin(user, context);
+};
+
 export const login = async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
@@ -87,44 +134,81 @@ export const login = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Email and password are required' });
     }
 
+    const normalizedEmail = String(email).toLowerCase();
+    const ip = clientIp(req) || 'unknown';
+
+    // Brute-force protection: locked accounts, blocked IPs, progressive delays
+    const block = await checkLoginAllowed(normalizedEmail, ip);
+    if (block.blocked) {
+      res.set('Retry-After', String(block.retryAfter));
+      return res.status(block.status).json({ error: block.error, retryAfter: block.retryAfter });
+    }
+
     // Find user
-    const user = await User.findOne({ email: email.toLowerCase() });
+    const user = await User.findOne({ email: normalizedEmail });
     if (!user) {
+      await recordLoginFailure(normalizedEmail, ip);
       return res.status(400).json({ error: 'Invalid credentials' });
     }
 
-    // Check password
-    const isValidPassword = await bcrypt.compare(password, user.password);
+    // Check password; accounts created through an identity provider have none
+    const isValidPassword = !!user.password && await bcrypt.compare(password, user.password);
     if (!isValidPassword) {
+      await recordLoginFailure(normalizedEmail, ip, String(user._id));
       return res.status(400).json({ error: 'Invalid credentials' });
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id },
-      process.env.JWT_SECRET || 'fallback-secret',
-      { expiresIn: '7d' }
-    );
+    // Checked after the password so it doesn't reveal which accounts exist
+    if (user.disabledAt) {
+      return res.status(403).json({ error: 'Account disabled' });
+    }
 
-    // Cache user profile for subsequent requests
-    const userProfile = {
-      id: user._id,
-      email: user.email,
-      name: user.name,
-      createdAt: user.createdAt
-    };
-    await cache.set(`user:profile:${user._id}`, userProfile, CACHE_TTL.USER_PROFILE);
-    
-    // Cache token validation result
-    await cache.set(`token:${token}`, { userId: user._id, valid: true }, CACHE_TTL.JWT_TOKEN);
+    res.json(await loginResponse(user, sessionContext(req)));
+  } catch (error) {
+    logger.error('Login error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
 
-    res.json({
-      message: 'Login successful',
-      token,
-      user: userProfile
-    });
+// ===== Login, step 2 - challenge token plus TOTP or recovery code =====
+export const loginMfa = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (typeof challengeToken !== 'string' || (typeof code !== 'string' && typeof recoveryCode !== 'string')) {
+      return res.status(400).json({ error: 'Challenge token and a code or recovery code are required' });
+    }
+
+    const challenge = await findMfaChallenge(challengeToken);
+    const user = challenge && await User.findById(challenge.userId);
+    if (!challenge || !user) {
+      return res.status(401).json({ error: 'Invalid or expired challenge. Please log in again.' });
+    }
+
+    const ip = clientIp(req) || 'unknown';
+    const block = await checkLoginAllowed(user.email, ip);
+    if (block.blocked) {
+      res.set('Retry-After', String(block.retryAfter));
+      return res.status(block.status).json({ error: block.error, retryAfter: block.retryAfter });
+    }
+
+    const method = await completeMfaChallenge(challengeToken, challenge.userId, { code, recoveryCode });
+    if (!method) {
+      await recordLoginFailure(user.email, ip, challenge.userId);
+      return res.status(401).json({ error: 'Invalid code' });
+    }
+
+    if (user.disabledAt) {
+      return res.status(403).json({ error: 'Account disabled' });
+    }
+
+    if (method === 'recovery') {
+      await recordAuditEvent({ type: 'mfa_recovery_code_used', userId: challenge.userId, ip });
+    }
+
+    res.json(await completeLogin(user, sessionContext(req)));
   } catch (error) {
-    console.error('Login error:', error);
+    logger.error('MFA login error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -147,19 +231,14 @@ export const getProfile = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    const userProfile = {
-      id: user._id,
-      email: user.email,
-      name: user.name,
-      createdAt: user.createdAt
-    };
+    const userProfile = toUserProfile(user);
     
     // Cache for future requests
     await cache.set(cacheKey, userProfile, CACHE_TTL.USER_PROFILE);
 
     res.json({ user: userProfile, cached: false });
   } catch (error) {
-    console.error('Get profile error:', error);
+    logger.error('Get profile error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -179,12 +258,7 @@ export const updateProfile = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    const userProfile = {
-      id: user._id,
-      email: user.email,
-      name: user.name,
-      createdAt: user.createdAt
-    };
+    const userProfile = toUserProfile(user);
 
     // Update cache
     await cache.set(`user:profile:${userId}`, userProfile, CACHE_TTL.USER_PROFILE);
@@ -194,25 +268,270 @@ export const updateProfile = async (req: Request, res: Response) => {
       user: userProfile 
     });
   } catch (error) {
-    console.error('Update profile error:', error);
+    logger.error('Update profile error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Refresh - Rotate refresh token and issue a new access token =====
+export const refresh = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    const result = await rotateRefreshToken(refreshToken, sessionContext(req));
+    if (!result.ok) {
+      return res.status(401).json({
+        error: result.reason === 'reused'
+          ? 'Refresh token reuse detected, session revoked'
+          : 'Invalid or expired refresh token'
+      });
+    }
+
+    res.json({
+      message: 'Token refreshed',
+      ...result.tokens
+    });
+  } catch (error) {
+    logger.error('Refresh token error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
 
-// ===== Logout - Invalidate cached token =====
+// ===== Logout - Revoke the current session =====
 export const logout = async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
-    
+    const token = req.headers['authorization']?.split(' ')[1];
+
+    await revokeSessions([(req as any).sessionId], 'logout');
     if (token) {
-      // Invalidate the token in cache
-      await cache.del(`token:${token}`);
+      await cache.del(tokenCacheKey(token));
     }
-    
+
     res.json({ message: 'Logged out successfully' });
   } catch (error) {
-    console.error('Logout error:', error);
+    logger.error('Logout error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Logout Everywhere - Revoke every session of the user =====
+export const logoutAll = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const sessionsRevoked = await revokeAllSessions(userId, 'logout_all');
+
+    // The current session may have no refresh token left but its access token still works
+    await revokeSessions([(req as any).sessionId], 'logout_all');
+
+    res.json({ message: 'Logged out of all sessions', sessionsRevoked });
+  } catch (error) {
+    logger.error('Logout all error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Forgot Password - Mail a reset link =====
+const sendPasswordReset = async (email: string) => {
+  const user = await User.findOne({ email: email.toLowerCase() }).select('_id email name').lean();
+  if (!user) return;
+
+  const token = await createOneTimeToken(String(user._id), 'password_reset', PASSWORD_RESET_TTL_SECONDS);
+  await sendMail(passwordResetEmail(user.email, user.name, token, PASSWORD_RESET_TTL_SECONDS / 60));
+  logger.info('Password reset requested', { userId: user._id });
+};
+
+export const forgotPassword = async (req: Request, res: Response) => {
+  const { email } = req.body;
+
+  if (!email || typeof email !== 'string') {
+    return res.status(400).json({ error: 'Email is required' });
+  }
+
+  // Answer before the lookup so neither the body nor the timing reveals
+  // whether the account exists
+  sendPasswordReset(email).catch(error => logger.error('Forgot password error', error));
+
+  res.status(202).json({
+    message: 'If an account exists for that email, a password reset link has been sent'
+  });
+};
+
+// ===== Reset Password - Redeem a reset token =====
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Token and password are required' });
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const userId = await consumeOneTimeToken(token, 'password_reset');
+    if (!userId) {
+      return res.status(400).json({ error: 'Invalid or expired reset token' });
+    }
+
+    const hashedPassword = await bcrypt.hash(password, BCRYPT_ROUNDS);
+    const user = await User.findByIdAndUpdate(userId, { password: hashedPassword }).select('_id').lean();
+    if (!user) {
+      return res.status(400).json({ error: 'Invalid or expired reset token' });
+    }
+
+    // Whoever knew the old password may hold tokens - end every session
+    const sessionsRevoked = await revokeAllSessions(userId, 'password_reset');
+    logger.info('Password reset completed', { userId, sessionsRevoked });
+
+    res.json({ message: 'Password has been reset. Please log in with your new password.' });
+  } catch (error) {
+    logger.error('Reset password error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Verify Email - Redeem a verification token =====
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'Verification token is required' });
+    }
+
+    const userId = await consumeOneTimeToken(token, 'email_verification');
+    if (!userId) {
+      return res.status(400).json({ error: 'Invalid or expired verification token' });
+    }
+
+    const user = await User.findByIdAndUpdate(userId, { emailVerified: true }).select('_id').lean();
+    if (!user) {
+      return res.status(400).json({ error: 'Invalid or expired verification token' });
+    }
+
+    await cache.del(`user:profile:${userId}`);
+    logger.info('Email verified', { userId });
+
+    // Existing access tokens still say unverified until the next refresh
+    res.json({ message: 'Email verified successfully. Refresh your token to pick up the change.' });
+  } catch (error) {
+    logger.error('Verify email error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Resend Verification - Throttled per user =====
+export const resendVerification = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+
+    const user = await User.findById(userId).select('_id email name emailVerified').lean();
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.emailVerified) {
+      return res.status(400).json({ error: 'Email is already verified' });
+    }
+
+    const retryAfter = await claimResendSlot(String(userId));
+    if (retryAfter > 0) {
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({ error: 'Verification email was sent recently. Try again later.', retryAfter });
+    }
+
+    await sendVerificationEmail(user);
+
+    res.status(202).json({ message: 'Verification email sent' });
+  } catch (error) {
+    logger.error('Resend verification error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Change Password - Requires the current password =====
+export const changePassword = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword || typeof newPassword !== 'string') {
+      return res.status(400).json({ error: 'Current password and new password are required' });
+    }
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const user = await User.findById(userId).select('password');
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!user.password) {
+      return res.status(400).json({ error: NO_PASSWORD_ERROR });
+    }
+
+    const isValidPassword = await bcrypt.compare(String(currentPassword), user.password);
+    if (!isValidPassword) {
+      return res.status(400).json({ error: 'Current password is incorrect' });
+    }
+
+    if (await bcrypt.compare(newPassword, user.password)) {
+      return res.status(400).json({ error: 'New password must be different from the current password' });
+    }
+
+    user.password = await bcrypt.hash(newPassword, BCRYPT_ROUNDS);
+    await user.save();
+
+    // Keep this session, end the others; outstanding reset links are void too
+    const sessionsRevoked = await revokeOtherSessions(userId, (req as any).sessionId, 'password_changed');
+    await invalidateOneTimeTokens(userId, 'password_reset');
+    await recordAuditEvent({ type: 'password_changed', userId, ip: clientIp(req), details: { sessionsRevoked } });
+
+    res.json({ message: 'Password changed successfully', sessionsRevoked });
+  } catch (error) {
+    logger.error('Change password error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Delete Account - Requires the password =====
+export const deleteAccount = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { password } = req.body || {};
+
+    if (!password) {
+      return res.status(400).json({ error: 'Password is required to delete the account' });
+    }
+
+    const user = await User.findById(userId).select('email password').lean();
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!user.password) {
+      return res.status(400).json({ error: NO_PASSWORD_ERROR });
+    }
+
+    const isValidPassword = await bcrypt.compare(String(password), user.password);
+    if (!isValidPassword) {
+      return res.status(400).json({ error: 'Password is incorrect' });
+    }
+
+    const result = await deleteUserAccount(user);
+    if (!result.ok) {
+      // Nothing was deleted; the user can retry once order-service is back
+      return res.status(503).json({ error: 'Account deletion is temporarily unavailable, please try again later' });
+    }
+
+    res.json({ message: 'Account deleted', ordersAnonymized: result.ordersAnonymized });
+  } catch (error) {
+    logger.error('Delete account error', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -0,0 +1,163 @@
+// ===== MFA Enrolment & Management =====
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { User } from '../models/User';
+import {
+  startMfaSetup,
+  confirmMfaSetup,
+  turnOffMfa,
+  replaceRecoveryCodes,
+  verifySecondFactor,
+  mfaRequiredFor
+} from '../services/mfa';
+import { revokeOtherSessions } from '../services/tokenService';
+import { recordAuditEvent } from '../services/audit';
+import { clientIp } from '../middleware/clientIp';
+import { logger } from '../logging/logger';
+
+const RECOVERY_CODES_NOTICE = 'Store these recovery codes now: they will not be shown again.';
+
+export const getMfaStatus = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById((req as any).userId).select('roles mfa.enabled mfa.enabledAt +mfa.pendingSecret +mfa.recoveryCodeHashes').lean();
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({
+      enabled: !!user.mfa?.enabled,
+      enabledAt: user.mfa?.enabledAt || null,
+      setupPending: !user.mfa?.enabled && !!user.mfa?.pendingSecret,
+      recoveryCodesRemaining: user.mfa?.recoveryCodeHashes?.length || 0,
+      requiredForRole: mfaRequiredFor(user)
+    });
+  } catch (error) {
+    logger.error('MFA status error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Step 1: a new secret for the authenticator app (replaces any unconfirmed one)
+export const setupMfa = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById((req as any).userId).select('email mfa.enabled').lean();
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (user.mfa?.enabled) {
+      return res.status(400).json({ error: 'MFA is already enabled' });
+    }
+
+    const { secret, otpauthUri } = await startMfaSetup(user);
+
+    res.json({
+      message: 'Add this secret to your authenticator app, then confirm with a code',
+      secret,
+      otpauthUri
+    });
+  } catch (error) {
+    logger.error('MFA setup error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Step 2: a first code proves the app is set up. Other sessions are ended,
+// since they signed in with the password alone.
+export const confirmMfa = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { code } = req.body;
+
+    if (typeof code !== 'string') {
+      return res.status(400).json({ error: 'Code is required' });
+    }
+
+    const user = await User.findById(userId).select('mfa.enabled').lean();
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (user.mfa?.enabled) {
+      return res.status(400).json({ error: 'MFA is already enabled' });
+    }
+
+    if (!await confirmMfaSetup(userId, code)) {
+      return res.status(400).json({ error: 'Invalid code, or no MFA setup in progress' });
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(userId);
+    const sessionsRevoked = await revokeOtherSessions(userId, (req as any).sessionId, 'mfa_enabled');
+
+    await recordAuditEvent({ type: 'mfa_enabled', userId: String(userId), ip: clientIp(req) });
+
+    res.json({
+      message: `MFA enabled. ${RECOVERY_CODES_NOTICE}`,
+      recoveryCodes,
+      sessionsRevoked
+    });
+  } catch (error) {
+    logger.error('MFA confirm error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Needs the password and a second factor. Not allowed while a role requires MFA.
+export const disableMfa = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { password, code, recoveryCode } = req.body;
+
+    if (typeof password !== 'string' || (typeof code !== 'string' && typeof recoveryCode !== 'string')) {
+      return res.status(400).json({ error: 'Password and a code or recovery code are required' });
+    }
+
+    const user = await User.findById(userId).select('password roles mfa.enabled');
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!user.mfa?.enabled) {
+      return res.status(400).json({ error: 'MFA is not enabled' });
+    }
+    if (mfaRequiredFor(user)) {
+      return res.status(400).json({ error: 'MFA is required for your role and cannot be turned off' });
+    }
+
+    if (!user.password || !await bcrypt.compare(password, user.password)) {
+      return res.status(400).json({ error: 'Password is incorrect' });
+    }
+    if (!await verifySecondFactor(userId, { code, recoveryCode })) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+
+    await turnOffMfa(userId);
+    await recordAuditEvent({ type: 'mfa_disabled', userId: String(userId), ip: clientIp(req) });
+
+    res.json({ message: 'MFA disabled' });
+  } catch (error) {
+    logger.error('MFA disable error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// New set of recovery codes; the old ones stop working. Needs a TOTP code.
+export const regenerateRecoveryCodes = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { code } = req.body;
+
+    if (typeof code !== 'string') {
+      return res.status(400).json({ error: 'Code is required' });
+    }
+
+    if (!await verifySecondFactor(userId, { code })) {
+      return res.status(400).json({ error: 'Invalid code, or MFA is not enabled' });
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(userId);
+    await recordAuditEvent({ type: 'mfa_recovery_codes_regenerated', userId: String(userId), ip: clientIp(req) });
+
+    res.json({ message: RECOVERY_CODES_NOTICE, recoveryCodes });
+  } catch (error) {
+    logger.error('MFA recovery codes error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,81 @@
+// ===== Login with an External Identity Provider (OpenID Connect) =====
+import { Request, Response } from 'express';
+import { getOidcProvider, listOidcProviders } from '../config/oidcProviders';
+import { startOidcLogin, completeOidcLogin, findOrLinkOidcUser } from '../services/oidc';
+import { sessionContext } from '../services/sessions';
+import { loginResponse } from './authController';
+import { logger } from '../logging/logger';
+
+const OIDC_ERRORS = {
+  invalid_state: { status: 400, error: 'Invalid or expired login attempt. Please start again.' },
+  code_rejected: { status: 400, error: 'The identity provider rejected the authorization code' },
+  invalid_id_token: { status: 401, error: 'Invalid ID token from the identity provider' },
+  provider_unavailable: { status: 502, error: 'Identity provider unavailable' },
+  email_not_verified: { status: 403, error: 'The identity provider has not verified this email address' },
+  identity_conflict: { status: 409, error: 'This account is already linked to another identity at this provider' }
+};
+
+export const listProviders = (req: Request, res: Response) => {
+  res.json({
+    providers: listOidcProviders().map(provider => ({ id: provider.id, name: provider.name }))
+  });
+};
+
+// The frontend sends the browser to authorizationUrl and keeps state to
+// compare with the one the provider sends back
+export const authorize = async (req: Request, res: Response) => {
+  try {
+    const provider = getOidcProvider(req.params.provider);
+    if (!provider) {
+      return res.status(404).json({ error: 'Unknown identity provider' });
+    }
+
+    const loginHint = typeof req.query.loginHint === 'string' ? req.query.loginHint : undefined;
+    const result = await startOidcLogin(provider, loginHint);
+    if (!result.ok) {
+      const { status, error } = OIDC_ERRORS[result.reason];
+      return res.status(status).json({ error });
+    }
+
+    res.json({
+      authorizationUrl: result.authorizationUrl,
+      state: result.state,
+      expiresIn: result.expiresIn
+    });
+  } catch (error) {
+    logger.error('OIDC authorize error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// The frontend posts the code and state from the redirect; the answer is the
+// same as a password login's (tokens, or an MFA challenge)
+export const callback = async (req: Request, res: Response) => {
+  try {
+    const { state, code } = req.body;
+    if (typeof state !== 'string' || typeof code !== 'string') {
+      return res.status(400).json({ error: 'State and code are required' });
+    }
+
+    const login = await completeOidcLogin(state, code);
+    if (!login.ok) {
+      const { status, error } = OIDC_ERRORS[login.reason];
+      return res.status(status).json({ error });
+    }
+
+    const account = await findOrLinkOidcUser(login.provider, login.identity);
+    if (!account.ok) {
+      const { status, error } = OIDC_ERRORS[account.reason];
+      return res.status(status).json({ error });
+    }
+
+    if (account.user.disabledAt) {
+      return res.status(403).json({ error: 'Account disabled' });
+    }
+
+    res.json(await loginResponse(account.user, sessionContext(req)));
+  } catch (error) {
+    logger.error('OIDC callback error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
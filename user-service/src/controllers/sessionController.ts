@@ -0,0 +1,72 @@
+// ===== Sessions & Devices =====
+// Every login starts a session; these let users see theirs and end them.
+import { Request, Response } from 'express';
+import { getActiveSessionIds, revokeSessions, revokeOtherSessions } from '../services/tokenService';
+import { findSessions } from '../services/sessions';
+import { recordAuditEvent } from '../services/audit';
+import { clientIp } from '../middleware/clientIp';
+import { logger } from '../logging/logger';
+
+export const listSessions = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const currentSessionId = (req as any).sessionId;
+
+    const sessions = await findSessions(userId, await getActiveSessionIds(userId));
+
+    res.json({
+      sessions: sessions.map(session => ({
+        id: session.sessionId,
+        device: session.device,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        lastSeenIp: session.lastSeenIp,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        current: session.sessionId === currentSessionId
+      }))
+    });
+  } catch (error) {
+    logger.error('List sessions error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Revoking the current session is the same as logging out
+export const revokeSession = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { sessionId } = req.params;
+
+    // Only the user's own, still active sessions
+    if (!(await getActiveSessionIds(userId)).includes(sessionId)) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    await revokeSessions([sessionId], 'revoked_by_user');
+    await recordAuditEvent({ type: 'session_revoked', userId: String(userId), ip: clientIp(req), details: { sessionId } });
+
+    res.json({
+      message: 'Session revoked',
+      current: sessionId === (req as any).sessionId
+    });
+  } catch (error) {
+    logger.error('Revoke session error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// "Sign out other devices": every session except the one making the request
+export const revokeOtherUserSessions = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const sessionsRevoked = await revokeOtherSessions(userId, (req as any).sessionId, 'revoked_by_user');
+
+    await recordAuditEvent({ type: 'sessions_revoked', userId: String(userId), ip: clientIp(req), details: { sessionsRevoked } });
+
+    res.json({ message: 'Other sessions revoked', sessionsRevoked });
+  } catch (error) {
+    logger.error('Revoke other sessions error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,309 @@
+// ===== User Administration =====
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { IUser, User, USER_ROLES, UserRole } from '../models/User';
+import { cache } from '../cache/redis';
+import { unlockAccount } from '../services/loginThrottle';
+import { recordAuditEvent } from '../services/audit';
+import { revokeAllSessions } from '../services/tokenService';
+import { turnOffMfa } from '../services/mfa';
+import { expireCachedUserApiKeys } from '../services/apiKeys';
+import { toUserProfile } from '../services/userRegistration';
+import { logger } from '../logging/logger';
+
+const ADMIN_USER_FIELDS = 'email name roles emailVerified mfa.enabled createdAt lastLoginAt disabledAt disabledReason';
+
+type AdminUserFields = Pick<IUser, '_id' | 'email' | 'name' | 'roles' | 'emailVerified' | 'createdAt' |
+  'lastLoginAt' | 'disabledAt' | 'disabledReason'> & { mfa?: Pick<IUser['mfa'], 'enabled'> };
+
+// What admins see about a user: the profile plus account state
+const toAdminUserView = (user: AdminUserFields) => ({
+  ...toUserProfile(user),
+  mfaEnabled: !!user.mfa?.enabled,
+  lastLoginAt: user.lastLoginAt || null,
+  disabled: !!user.disabledAt,
+  disabledAt: user.disabledAt || null,
+  disabledReason: user.disabledReason || null
+});
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// ===== List / Search Users - Admin only =====
+// ?search= matches email or name (case-insensitive); ?disabled=true|false filters
+export const listUsers = async (req: Request, res: Response) => {
+  try {
+    const { search, disabled, page = 1, limit = 20 } = req.query;
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(parseInt(limit as string) || 20, 100);
+
+    const filter: Record<string, any> = {};
+    if (typeof search === 'string' && search.trim()) {
+      const pattern = new RegExp(escapeRegex(search.trim()), 'i');
+      filter.$or = [{ email: pattern }, { name: pattern }];
+    }
+    if (disabled === 'true') filter.disabledAt = { $ne: null };
+    if (disabled === 'false') filter.disabledAt = null;
+
+    const [users, total] = await Promise.all([
+      User.find(filter)
+        .select(ADMIN_USER_FIELDS)
+        .sort({ createdAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum)
+        .lean(),
+      User.countDocuments(filter)
+    ]);
+
+    res.json({
+      users: users.map(toAdminUserView),
+      pagination: { page: pageNum, limit: limitNum, total, pages: Math.ceil(total / limitNum) }
+    });
+  } catch (error) {
+    logger.error('List users error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Get User - Admin only =====
+export const getUser = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const user = await User.findById(id).select(ADMIN_USER_FIELDS).lean();
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({ user: toAdminUserView(user) });
+  } catch (error) {
+    logger.error('Get user error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Assign Roles - Admin only =====
+// New roles are embedded in the user's next access token (login or refresh)
+export const assignRoles = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { roles } = req.body;
+    const adminId = (req as any).userId;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    if (!Array.isArray(roles) || roles.length === 0) {
+      return res.status(400).json({ error: 'Roles must be a non-empty array' });
+    }
+
+    const invalid = roles.filter(role => !USER_ROLES.includes(role));
+    if (invalid.length > 0) {
+      return res.status(400).json({
+        error: `Invalid roles: ${invalid.join(', ')}. Allowed: ${USER_ROLES.join(', ')}`
+      });
+    }
+
+    // Keep at least one admin able to undo mistakes
+    if (id === String(adminId) && !roles.includes('admin')) {
+      return res.status(400).json({ error: 'Admins cannot remove their own admin role' });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      id,
+      { roles: Array.from(new Set<UserRole>(roles)) },
+      { new: true }
+    ).select('-password').lean();
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await cache.del(`user:profile:${id}`);
+
+    logger.info('User roles changed', { targetUserId: id, roles: user.roles, changedBy: adminId });
+
+    res.json({
+      message: 'Roles updated successfully',
+      user: {
+        id: user._id,
+        email: user.email,
+        name: user.name,
+        roles: user.roles,
+        emailVerified: user.emailVerified,
+        createdAt: user.createdAt
+      }
+    });
+  } catch (error) {
+    logger.error('Assign roles error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Unlock Account - Admin only =====
+// Lifts a brute-force lockout and clears the account's failed-login history
+export const unlockUser = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const adminId = (req as any).userId;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const user = await User.findById(id).select('email').lean();
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const wasLocked = await unlockAccount(user.email);
+    await recordAuditEvent({
+      type: 'login_unlock',
+      userId: id,
+      email: user.email,
+      actorId: String(adminId),
+      details: { wasLocked }
+    });
+
+    res.json({
+      message: wasLocked ? 'Account unlocked' : 'Account was not locked',
+      wasLocked
+    });
+  } catch (error) {
+    logger.error('Unlock user error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Disable / Enable Account - Admin only =====
+// A disabled user can't log in or refresh, every session is revoked and the
+// user's API keys stop working until the account is enabled again
+export const disableUser = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+    const adminId = (req as any).userId;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    if (id === String(adminId)) {
+      return res.status(400).json({ error: 'Admins cannot disable their own account' });
+    }
+
+    if (reason !== undefined && (typeof reason !== 'string' || reason.length > 500)) {
+      return res.status(400).json({ error: 'Reason must be a string of at most 500 characters' });
+    }
+
+    const user = await User.findById(id).select(ADMIN_USER_FIELDS);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.disabledAt) {
+      return res.json({ message: 'Account was already disabled', user: toAdminUserView(user), sessionsRevoked: 0 });
+    }
+
+    user.disabledAt = new Date();
+    user.disabledReason = reason;
+    await user.save();
+
+    const sessionsRevoked = await revokeAllSessions(id, 'account_disabled');
+    await expireCachedUserApiKeys(id, 'account_disabled');
+
+    await cache.del(`user:profile:${id}`);
+    await cache.delPattern(`token:${id}:*`);
+
+    await recordAuditEvent({
+      type: 'account_disabled',
+      userId: id,
+      email: user.email,
+      actorId: String(adminId),
+      details: { reason, sessionsRevoked }
+    });
+
+    res.json({ message: 'Account disabled', user: toAdminUserView(user), sessionsRevoked });
+  } catch (error) {
+    logger.error('Disable user error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const enableUser = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const adminId = (req as any).userId;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const user = await User.findById(id).select(ADMIN_USER_FIELDS);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const wasDisabled = !!user.disabledAt;
+    if (wasDisabled) {
+      user.disabledAt = undefined;
+      user.disabledReason = undefined;
+      await user.save();
+
+      await recordAuditEvent({
+        type: 'account_enabled',
+        userId: id,
+        email: user.email,
+        actorId: String(adminId)
+      });
+    }
+
+    res.json({
+      message: wasDisabled ? 'Account enabled' : 'Account was not disabled',
+      user: toAdminUserView(user)
+    });
+  } catch (error) {
+    logger.error('Enable user error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ===== Reset MFA - Admin only =====
+// For users who lost both their authenticator and their recovery codes.
+// Every session is revoked; the user signs in with the password and enrols again.
+export const resetUserMfa = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const adminId = (req as any).userId;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const user = await User.findById(id).select('email mfa.enabled').lean();
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await turnOffMfa(id);
+    const sessionsRevoked = await revokeAllSessions(id, 'mfa_reset');
+    await cache.delPattern(`token:${id}:*`);
+
+    await recordAuditEvent({
+      type: 'mfa_reset',
+      userId: id,
+      email: user.email,
+      actorId: String(adminId),
+      details: { wasEnabled: !!user.mfa?.enabled, sessionsRevoked }
+    });
+
+    res.json({ message: 'MFA reset', sessionsRevoked });
+  } catch (error) {
+    logger.error('Reset MFA error', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
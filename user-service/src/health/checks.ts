@@ -0,0 +1,90 @@
+// ===== Liveness & Readiness Checks =====
+// Liveness only says the process is up. Readiness runs dependency checks:
+// a failing critical check returns 503, a failing non-critical check reports
+// the service as degraded but still ready.
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import redis from '../cache/redis';
+
+const CHECK_TIMEOUT_MS = 2000;
+
+export interface HealthCheck {
+  name: string;
+  critical: boolean;
+  run: () => Promise<any>; // Resolves with optional details, throws when unhealthy
+}
+
+export interface CheckResult {
+  status: 'up' | 'down';
+  critical: boolean;
+  latencyMs: number;
+  details?: any;
+  error?: string;
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+const MONGO_STATES = ['disconnected', 'connected', 'connecting', 'disconnecting'];
+
+export const mongoCheck: HealthCheck = {
+  name: 'mongodb',
+  critical: true,
+  run: async () => {
+    const state = mongoose.connection.readyState;
+    if (state !== 1) {
+      throw new Error(`Connection ${MONGO_STATES[state] || 'uninitialized'}`);
+    }
+    await mongoose.connection.db!.admin().ping();
+    return { host: mongoose.connection.host };
+  }
+};
+
+export const redisCheck: HealthCheck = {
+  name: 'redis',
+  critical: false, // Cache failures degrade to database reads
+  run: async () => {
+    const reply = await redis.ping();
+    return { reply, status: redis.status };
+  }
+};
+
+const runCheck = async (check: HealthCheck): Promise<CheckResult> => {
+  const start = Date.now();
+  try {
+    const details = await withTimeout(check.run(), CHECK_TIMEOUT_MS);
+    return { status: 'up', critical: check.critical, latencyMs: Date.now() - start, details };
+  } catch (error: any) {
+    return { status: 'down', critical: check.critical, latencyMs: Date.now() - start, error: error.message };
+  }
+};
+
+export const livenessHandler = (service: string) => (req: Request, res: Response) => {
+  res.json({
+    status: 'OK',
+    service,
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime()
+  });
+};
+
+export const readinessHandler = (service: string, checks: HealthCheck[]) => async (req: Request, res: Response) => {
+  const results = await Promise.all(checks.map(runCheck));
+  const failed = results.filter(result => result.status === 'down');
+  const status = failed.some(result => result.critical)
+    ? 'not_ready'
+    : failed.length > 0 ? 'degraded' : 'ready';
+
+  res.status(status === 'not_ready' ? 503 : 200).json({
+    status,
+    service,
+    timestamp: new Date().toISOString(),
+    checks: Object.fromEntries(checks.map((check, i) => [check.name, results[i]]))
+  });
+};
@@ -0,0 +1,114 @@
+// ===== Structured JSON Logger with Request Correlation =====
+// Every line is one JSON object: timestamp, level, service, requestId, message
+// and any extra fields. The request ID comes from the X-Request-Id header (or is
+// generated) and follows the request through async code via AsyncLocalStorage.
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+interface RequestContext {
+  requestId: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+let serviceName = 'unknown';
+let minLevel: LogLevel = (process.env.LOG_LEVEL as LogLevel) in LEVELS
+  ? process.env.LOG_LEVEL as LogLevel
+  : 'info';
+
+export function initLogger(name: string, level?: LogLevel) {
+  serviceName = name;
+  if (level) minLevel = level;
+}
+
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+// ===== Field Serialization =====
+const serializeError = (error: Error) => ({
+  name: error.name,
+  message: error.message,
+  stack: error.stack
+});
+
+const toFields = (meta: unknown): Record<string, unknown> => {
+  if (meta === undefined) return {};
+  if (meta instanceof Error) return { error: serializeError(meta) };
+  if (meta && typeof meta === 'object' && !Array.isArray(meta)) {
+    return Object.fromEntries(Object.entries(meta).map(([key, value]) =>
+      [key, value instanceof Error ? serializeError(value) : value]
+    ));
+  }
+  return { detail: meta };
+};
+
+function write(level: LogLevel, message: string, meta?: unknown) {
+  if (LEVELS[level] < LEVELS[minLevel]) return;
+
+  const line = JSON.stringify({
+    timestamp: new Date().toISOString(),
+    level,
+    service: serviceName,
+    requestId: getRequestId(),
+    message,
+    ...toFields(meta)
+  });
+
+  if (level === 'error' || level === 'warn') {
+    process.stderr.write(line + '\n');
+  } else {
+    process.stdout.write(line + '\n');
+  }
+}
+
+export const logger = {
+  debug: (message: string, meta?: unknown) => write('debug', message, meta),
+  info: (message: string, meta?: unknown) => write('info', message, meta),
+  warn: (message: string, meta?: unknown) => write('warn', message, meta),
+  error: (message: string, meta?: unknown) => write('error', message, meta),
+};
+
+// ===== Express Middleware =====
+// Accept a well-formed incoming ID so one request can be traced across services
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+export function requestContextMiddleware(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.headers[REQUEST_ID_HEADER];
+  const requestId = typeof incoming === 'string' && VALID_REQUEST_ID.test(incoming)
+    ? incoming
+    : crypto.randomUUID();
+
+  req.headers[REQUEST_ID_HEADER] = requestId;
+  res.setHeader('X-Request-Id', requestId);
+  requestContext.run({ requestId }, next);
+}
+
+export function requestLoggingMiddleware(req: Request, res: Response, next: NextFunction) {
+  const start = Date.now();
+  // 'finish' can fire outside the request's async context, so capture the ID now
+  const requestId = getRequestId();
+
+  res.on('finish', () => {
+    const status = res.statusCode;
+    const level: LogLevel = status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info';
+
+    write(level, 'Request completed', {
+      requestId,
+      method: req.method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : undefined,
+      path: req.originalUrl,
+      status,
+      durationMs: Date.now() - start
+    });
+  });
+
+  next();
+}
@@ -0,0 +1,32 @@
+// ===== Mail Templates =====
+import { MailMessage } from './transport';
+
+const APP_URL = process.env.APP_URL || 'http://localhost';
+
+export const passwordResetEmail = (to: string, name: string, token: string, ttlMinutes: number): MailMessage => ({
+  to,
+  subject: 'Reset your password',
+  text: [
+    `Hi ${name},`,
+    '',
+    'We received a request to reset your password. Use the link below to choose a new one:',
+    `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`,
+    '',
+    `The link expires in ${ttlMinutes} minutes and can only be used once.`,
+    'If you did not ask for this, you can ignore this email.'
+  ].join('\n')
+});
+
+export const emailVerificationEmail = (to: string, name: string, token: string, ttlHours: number): MailMessage => ({
+  to,
+  subject: 'Verify your email address',
+  text: [
+    `Hi ${name},`,
+    '',
+    'Please confirm your email address by opening the link below:',
+    `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`,
+    '',
+    `The link expires in ${ttlHours} hours.`,
+    'If you did not create an account, you can ignore this email.'
+  ].join('\n')
+});
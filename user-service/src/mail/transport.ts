@@ -0,0 +1,58 @@
+// ===== Mail Transport =====
+// Outgoing mail goes through a MailTransport so the delivery mechanism can be
+// swapped per environment. MAIL_TRANSPORT picks a built-in one:
+//   console - log the message (default, local development)
+//   file    - append each message as a JSON line to MAIL_FILE_PATH (tests)
+// A real provider can be plugged in with setMailTransport().
+import fs from 'fs';
+import { logger } from '../logging/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'no-reply@ecommerce.local';
+
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    logger.info('Mail sent', { transport: 'console', ...message });
+  }
+};
+
+export const createFileTransport = (filePath: string): MailTransport => ({
+  name: 'file',
+  async send(message) {
+    const line = JSON.stringify({ ...message, sentAt: new Date().toISOString() });
+    await fs.promises.appendFile(filePath, `${line}\n`);
+  }
+});
+
+const createDefaultTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT || 'console') {
+    case 'file':
+      return createFileTransport(process.env.MAIL_FILE_PATH || './mail-outbox.log');
+    case 'console':
+      return consoleTransport;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}"`);
+  }
+};
+
+let transport: MailTransport | null = null;
+
+export const setMailTransport = (custom: MailTransport) => {
+  transport = custom;
+};
+
+export const sendMail = async (message: MailMessage) => {
+  transport = transport || createDefaultTransport();
+  await transport.send({ from: MAIL_FROM, ...message });
+};
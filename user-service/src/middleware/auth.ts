@@ -1,10 +1,28 @@
 // ===== Optimized Auth Middleware with Token Caching =====
 import { Request, Response, NextFunction } from 'express';
+import { getInternalApiToken } from '../config/internalApi';
 import jwt from 'jsonwebtoken';
 import { cache } from '../cache/redis';
+import { isSessionRevoked } from '../services/revocation';
+import { verifyAccessToken } from '../services/tokenService';
+import { isSessionRecordRevoked } from '../services/sessions';
 
 const JWT_CACHE_TTL = 300; // 5 minutes
 
+interface TokenPayload {
+  userId: string;
+  roles?: string[];
+  sid?: string;
+  exp?: number;
+}
+
+// Keyed by the claimed user id so all of a user's entries can be purged
+// together; a forged claim only ever produces a cache miss
+export const tokenCacheKey = (token: string) => {
+  const claimed = jwt.decode(token) as TokenPayload | null;
+  return `token:${claimed?.userId ?? 'unknown'}:${token}`;
+};
+
 export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
@@ -13,27 +31,64 @@ export const authenticateToken = async (req: Request, res: Response, next: NextF
     return res.status(401).json({ error: 'Access token required' });
   }
 
+  const cacheKey = tokenCacheKey(token);
+  let decoded: TokenPayload;
   try {
     // Check if token is cached as valid (avoids CPU-intensive JWT verification)
-    const cachedToken = await cache.get(`token:${token}`);
+    const cachedToken = await cache.get(cacheKey);
     if (cachedToken && cachedToken.valid) {
-      (req as any).userId = cachedToken.userId;
-      return next();
-    }
+      decoded = { userId: cachedToken.userId, roles: cachedToken.roles, sid: cachedToken.sid };
+    } else {
+      // Verify token (CPU-bound operation)
+      decoded = verifyAccessToken(token) as TokenPayload;
 
-    // Verify token (CPU-bound operation)
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret') as { userId: string };
-    
-    // Cache the validation result for future requests
-    await cache.set(`token:${token}`, { userId: decoded.userId, valid: true }, JWT_CACHE_TTL);
-    
-    (req as any).userId = decoded.userId;
-    next();
+      // The Redis revocation list is checked below on every request; the
+      // session record catches revocations Redis has lost
+      if (decoded.sid && await isSessionRecordRevoked(decoded.sid)) {
+        return res.status(401).json({ error: 'Token revoked' });
+      }
+
+      // Cache the validation result, but never past the token's own expiry
+      const secondsLeft = decoded.exp ? decoded.exp - Math.floor(Date.now() / 1000) : JWT_CACHE_TTL;
+      await cache.set(cacheKey, { userId: decoded.userId, roles: decoded.roles, sid: decoded.sid, valid: true }, Math.min(JWT_CACHE_TTL, secondsLeft));
+    }
   } catch (err) {
+    if (err instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({ error: 'Token expired' });
+    }
     // Token is invalid - cache this too to prevent repeated verification attempts
-    await cache.set(`token:${token}`, { valid: false }, 60); // Cache invalid for 1 minute
+    await cache.set(cacheKey, { valid: false }, 60); // Cache invalid for 1 minute
     return res.status(403).json({ error: 'Invalid token' });
   }
+
+  // Tokens from before sessions existed can't be revoked, so they're refused
+  if (!decoded.sid || await isSessionRevoked(decoded.sid)) {
+    return res.status(401).json({ error: 'Token revoked' });
+  }
+
+  (req as any).userId = decoded.userId;
+  (req as any).userRoles = decoded.roles || [];
+  (req as any).sessionId = decoded.sid;
+  next();
+};
+
+// Allow the request only if the token carries at least one of the given roles.
+// Must run after authenticateToken.
+export const requireRole = (...roles: string[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const userRoles: string[] = (req as any).userRoles || [];
+    if (!userRoles.some(role => roles.includes(role))) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+    next();
+  };
+
+// Service-to-service calls (order-service) present the shared internal token
+export const requireInternalToken = (req: Request, res: Response, next: NextFunction) => {
+  if (req.headers['x-internal-token'] !== getInternalApiToken()) {
+    return res.status(403).json({ error: 'Internal endpoint' });
+  }
+  next();
 };
 
 // Rate-limited auth middleware for sensitive endpoints
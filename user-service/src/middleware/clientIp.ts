@@ -0,0 +1,17 @@
+// ===== Client IP =====
+// The gateway passes the client's IP in X-Client-Ip together with the
+// internal API token. Without the token the header is ignored and the socket
+// address is used, so a caller that reaches user-service directly can't pick
+// the IP that login throttling and audit events see.
+import { Request } from 'express';
+import { getInternalApiToken } from '../config/internalApi';
+
+export const CLIENT_IP_HEADER = 'x-client-ip';
+
+export const clientIp = (req: Request): string | undefined => {
+  const asserted = req.headers[CLIENT_IP_HEADER];
+  if (typeof asserted === 'string' && asserted && req.headers['x-internal-token'] === getInternalApiToken()) {
+    return asserted;
+  }
+  return req.socket.remoteAddress;
+};
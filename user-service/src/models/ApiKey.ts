@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// What an API key may do. The gateway route table maps each scope to routes.
+export const API_KEY_SCOPES = ['catalog:write', 'orders:read', 'orders:write'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Keys are shown once on creation; only their SHA-256 hash is stored
+export interface IApiKey extends Document {
+  name: string;
+  keyHash: string;
+  prefix: string;               // Start of the key, to tell keys apart in listings
+  userId: string;               // Owner; requests act as this user
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const apiKeySchema = new Schema<IApiKey>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  prefix: {
+    type: String,
+    required: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  scopes: {
+    type: [String],
+    enum: API_KEY_SCOPES,
+    required: true
+  },
+  rateLimitPerMinute: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  lastUsedAt: Date,
+  revokedAt: Date
+}, {
+  timestamps: true
+});
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
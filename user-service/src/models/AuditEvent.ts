@@ -0,0 +1,32 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Security-relevant account events (lockouts, unlocks, ...) kept for auditing
+export interface IAuditEvent extends Document {
+  type: string;
+  userId?: string;
+  email?: string;
+  ip?: string;
+  actorId?: string;     // Who triggered it, when not the user themselves
+  details?: Record<string, any>;
+  createdAt: Date;
+}
+
+const auditEventSchema = new Schema<IAuditEvent>({
+  type: {
+    type: String,
+    required: true,
+    index: true
+  },
+  userId: {
+    type: String,
+    index: true
+  },
+  email: String,
+  ip: String,
+  actorId: String,
+  details: Schema.Types.Mixed
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+export const AuditEvent = mongoose.model<IAuditEvent>('AuditEvent', auditEventSchema);
@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A login sent to an external identity provider and not yet back. Keyed by
+// the SHA-256 of the OAuth state parameter; holds the PKCE verifier and the
+// nonce expected in the ID token. Deleted when the callback uses it.
+export interface IOidcLoginState extends Document {
+  stateHash: string;
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const oidcLoginStateSchema = new Schema<IOidcLoginState>({
+  stateHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  codeVerifier: {
+    type: String,
+    required: true
+  },
+  nonce: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Let MongoDB remove abandoned logins
+oidcLoginStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OidcLoginState = mongoose.model<IOidcLoginState>('OidcLoginState', oidcLoginStateSchema);
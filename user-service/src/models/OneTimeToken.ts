@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Single-use tokens mailed to users (password reset, email verification) or
+// handed out between the two login steps (MFA challenge). Only the SHA-256
+// hash is stored, so a database leak doesn't hand out working links.
+export type OneTimeTokenPurpose = 'password_reset' | 'email_verification' | 'mfa_challenge';
+
+export interface IOneTimeToken extends Document {
+  tokenHash: string;
+  userId: string;
+  purpose: OneTimeTokenPurpose;
+  expiresAt: Date;
+  usedAt?: Date;
+  failedAttempts: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const oneTimeTokenSchema = new Schema<IOneTimeToken>({
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: true
+  },
+  purpose: {
+    type: String,
+    enum: ['password_reset', 'email_verification', 'mfa_challenge'],
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: Date,
+  failedAttempts: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+// Compound index for invalidating a user's outstanding tokens of one purpose
+oneTimeTokenSchema.index({ userId: 1, purpose: 1 });
+
+// Let MongoDB remove expired tokens
+oneTimeTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OneTimeToken = mongoose.model<IOneTimeToken>('OneTimeToken', oneTimeTokenSchema);
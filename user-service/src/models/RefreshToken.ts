@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Refresh tokens are opaque; only their SHA-256 hash is stored. Every token
+// belongs to a session (family): rotating a token keeps the session id, so
+// presenting an already-rotated token lets us revoke the whole session.
+export interface IRefreshToken extends Document {
+  tokenHash: string;
+  userId: string;
+  sessionId: string;
+  expiresAt: Date;
+  rotatedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>({
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true  // Log out everywhere looks up all of a user's sessions
+  },
+  sessionId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  rotatedAt: Date,
+  revokedAt: Date
+}, {
+  timestamps: true
+});
+
+// Let MongoDB remove expired tokens
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A login on one device. The session id is the "sid" claim of its access
+// tokens and the family id of its refresh tokens; this record adds what the
+// user sees when listing where they are signed in.
+export interface ISession extends Document {
+  sessionId: string;
+  userId: string;
+  userAgent?: string;
+  device?: string;        // Short label derived from the user agent, e.g. "Chrome on macOS"
+  ip?: string;
+  lastSeenAt: Date;       // Login or last token refresh
+  lastSeenIp?: string;
+  expiresAt: Date;        // When the latest refresh token runs out
+  revokedAt?: Date;
+  revokedReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>({
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: true
+  },
+  userAgent: String,
+  device: String,
+  ip: String,
+  lastSeenAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastSeenIp: String,
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: Date,
+  revokedReason: String
+}, {
+  timestamps: true
+});
+
+// A user's sessions, most recently used first
+sessionSchema.index({ userId: 1, lastSeenAt: -1 });
+
+// Let MongoDB remove sessions whose refresh tokens have expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>('Session', sessionSchema);
@@ -1,13 +1,75 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const USER_ROLES = ['customer', 'staff', 'admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export interface IAddress {
+  _id: Types.ObjectId;
+  label?: string;       // e.g. Home, Work
+  recipient: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  postcode: string;
+  country: string;      // ISO 3166-1 alpha-2
+  phone?: string;
+}
+
+// Secret and recovery codes are never selected unless asked for explicitly
+export interface IUserMfa {
+  enabled: boolean;
+  secret?: string;              // Base32 TOTP secret
+  pendingSecret?: string;       // Set up but not yet confirmed with a first code
+  recoveryCodeHashes: string[]; // SHA-256 of each unused recovery code
+  lastUsedStep?: number;        // Last accepted TOTP step, so a code can't be replayed
+  enabledAt?: Date;
+}
+
+// An account at an external OpenID Connect provider that can sign in as this user
+export interface IUserIdentity {
+  provider: string;     // Provider id from OIDC_PROVIDERS
+  subject: string;      // The provider's "sub" claim
+  email: string;        // Email the provider reported when the identity was linked
+  linkedAt: Date;
+}
 
 export interface IUser extends Document {
   email: string;
-  password: string;
+  password?: string;    // Unset for users who have only signed in through a provider
   name: string;
+  roles: UserRole[];
+  emailVerified: boolean;
+  addresses: Types.DocumentArray<IAddress>;
+  defaultShippingAddressId?: Types.ObjectId;
+  defaultBillingAddressId?: Types.ObjectId;
+  mfa: IUserMfa;
+  identities: IUserIdentity[];
+  lastLoginAt?: Date;
+  disabledAt?: Date;      // Set by an admin; blocks login, refresh and API keys
+  disabledReason?: string;
+  registrationId?: string; // Queued registration that created the user, so a retried job finishes it
   createdAt: Date;
   updatedAt: Date;
 }
 
+const addressSchema = new Schema<IAddress>({
+  label: { type: String, trim: true },
+  recipient: { type: String, required: true, trim: true },
+  line1: { type: String, required: true, trim: true },
+  line2: { type: String, trim: true },
+  city: { type: String, required: true, trim: true },
+  postcode: { type: String, required: true, trim: true },
+  country: { type: String, required: true, uppercase: true, trim: true },
+  phone: { type: String, trim: true }
+});
+
+const identitySchema = new Schema<IUserIdentity>({
+  provider: { type: String, required: true },
+  subject: { type: String, required: true },
+  email: { type: String, required: true, lowercase: true },
+  linkedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
 const userSchema = new Schema<IUser>({
   email: {
     type: String,
@@ -18,16 +80,48 @@ const userSchema = new Schema<IUser>({
   },
   password: {
     type: String,
-    required: true,
     minlength: 6
   },
   name: {
     type: String,
     required: true,
     trim: true
-  }
+  },
+  roles: {
+    type: [{ type: String, enum: USER_ROLES }],
+    default: ['customer']
+  },
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  addresses: [addressSchema],
+  defaultShippingAddressId: Schema.Types.ObjectId,
+  defaultBillingAddressId: Schema.Types.ObjectId,
+  mfa: {
+    enabled: { type: Boolean, default: false },
+    secret: { type: String, select: false },
+    pendingSecret: { type: String, select: false },
+    recoveryCodeHashes: { type: [String], select: false },
+    lastUsedStep: Number,
+    enabledAt: Date
+  },
+  identities: [identitySchema],
+  lastLoginAt: Date,
+  disabledAt: Date,
+  disabledReason: String,
+  registrationId: { type: String, select: false }
 }, {
   timestamps: true
 });
 
+// Admin user listing, newest first
+userSchema.index({ createdAt: -1 });
+
+// One user per provider account; users without identities stay out of the index
+userSchema.index(
+  { 'identities.provider': 1, 'identities.subject': 1 },
+  { unique: true, partialFilterExpression: { 'identities.provider': { $exists: true } } }
+);
+
 export const User = mongoose.model<IUser>('User', userSchema);
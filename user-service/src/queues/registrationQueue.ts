@@ -3,13 +3,30 @@
 // This allows the API to respond quickly while processing happens asynchronously
 
 import Bull from 'bull';
-import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { User } from '../models/User';
-import { cache } from '../cache/redis';
+import crypto from 'crypto';
+import redis, { cache } from '../cache/redis';
+import { registerUser, RegistrationInput } from '../services/userRegistration';
+import { SessionContext } from '../services/sessions';
+import { logger } from '../logging/logger';
 
-const BCRYPT_ROUNDS = 8;
 const REDIS_URL = `redis://${process.env.REDIS_HOST || 'localhost'}:6379`;
+const RESULT_TTL_SECONDS = 300;
+
+export type RegistrationStatus =
+  | { status: 'pending' }
+  | { status: 'succeeded'; message: string; token: string; refreshToken: string; expiresIn: number; user: any }
+  | { status: 'failed'; error: string };
+
+const resultKey = (requestId: string) => `registration:result:${requestId}`;
+
+// Read a result and, if it succeeded, delete it in the same step, so two
+// concurrent polls can't both get the tokens
+const TAKE_RESULT_SCRIPT = `
+local value = redis.call('GET', KEYS[1])
+if value and cjson.decode(value).status == 'succeeded' then
+  redis.call('DEL', KEYS[1])
+end
+return value`;
 
 // Create registration queue
 export const registrationQueue = new Bull('registration', REDIS_URL, {
@@ -30,88 +47,74 @@ export const registrationQueue = new Bull('registration', REDIS_URL, {
 
 // Process registration jobs
 registrationQueue.process('register', 5, async (job) => {
-  const { email, password, name, requestId } = job.data;
+  const { email, password, name, context, requestId } = job.data;
   
-  console.log(`[Queue] Processing registration for ${email} (Request: ${requestId})`);
+  logger.info('[Queue] Processing registration', { email, requestId, jobId: job.id });
   
   try {
-    // Check if user already exists
-    const existingUser = await User.findOne({ email: email.toLowerCase() }).lean();
-    if (existingUser) {
-      throw new Error('User already exists');
-    }
+    // Keyed on requestId, so a retry after the user was saved still succeeds
+    const result = await registerUser({ email, password, name }, context || {}, requestId);
 
-    // Hash password (CPU-intensive operation now in background)
-    const hashedPassword = await bcrypt.hash(password, BCRYPT_ROUNDS);
-
-    // Create user
-    const user = new User({
-      email: email.toLowerCase(),
-      password: hashedPassword,
-      name
-    });
-
-    await user.save();
-
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id },
-      process.env.JWT_SECRET || 'fallback-secret',
-      { expiresIn: '7d' }
-    );
-
-    // Cache user profile
-    const userProfile = {
-      id: user._id,
-      email: user.email,
-      name: user.name,
-      createdAt: user.createdAt
-    };
-    
-    await cache.set(`user:profile:${user._id}`, userProfile, 300);
-    await cache.set(`user:email:${email.toLowerCase()}`, { exists: true, userId: user._id }, 300);
-
-    // Store result for retrieval
-    const result = {
-      success: true,
-      message: 'User created successfully',
-      token,
-      user: userProfile
-    };
-    
-    await cache.set(`registration:result:${requestId}`, result, 300);
+    // Validation failures and duplicates won't change on retry
+    const status: RegistrationStatus = result.ok
+      ? { status: 'succeeded', message: 'User created successfully', ...result.tokens, user: result.user }
+      : { status: 'failed', error: result.error };
+
+    await cache.set(resultKey(requestId), status, RESULT_TTL_SECONDS);
     
-    console.log(`[Queue] Registration completed for ${email}`);
-    return result;
+    logger.info('[Queue] Registration completed', { email, requestId, jobId: job.id, status: status.status });
+    return { status: status.status };
   } catch (error: any) {
-    console.error(`[Queue] Registration failed for ${email}:`, error.message);
+    logger.error('[Queue] Registration failed', { email, requestId, jobId: job.id, attempt: job.attemptsMade + 1, error: error.message });
     
-    // Store error result
-    await cache.set(`registration:result:${requestId}`, {
-      success: false,
-      error: error.message
-    }, 300);
+    // Unexpected errors are retried; report failure only once attempts run out
+    if (job.attemptsMade + 1 >= (job.opts.attempts || 1)) {
+      await cache.set(resultKey(requestId), { status: 'failed', error: 'Registration failed' }, RESULT_TTL_SECONDS);
+    }
     
     throw error;
   }
 });
 
+// Queue a registration and return the request ID to poll with
+// The context is the client's, so the session shows the device that signed up
+export const enqueueRegistration = async (input: RegistrationInput, context: SessionContext) => {
+  const requestId = crypto.randomUUID();
+
+  await cache.set(resultKey(requestId), { status: 'pending' }, RESULT_TTL_SECONDS);
+  await registrationQueue.add('register', { ...input, context, requestId }, {
+    jobId: requestId,
+    // Job data holds the plaintext password - don't keep it in Redis
+    removeOnComplete: true,
+    removeOnFail: true
+  });
+
+  return requestId;
+};
+
+// Latest status for a request ID, or null once it is unknown or expired.
+// A succeeded result carries tokens, so it can only be read once.
+export const getRegistrationStatus = async (requestId: string): Promise<RegistrationStatus | null> => {
+  const value = await redis.eval(TAKE_RESULT_SCRIPT, 1, resultKey(requestId));
+  return typeof value === 'string' ? JSON.parse(value) : null;
+};
+
 // Queue event listeners
 registrationQueue.on('completed', (job, result) => {
-  console.log(`[Queue] Job ${job.id} completed for ${job.data.email}`);
+  logger.info('[Queue] Job completed', { jobId: job.id, email: job.data.email, requestId: job.data.requestId });
 });
 
 registrationQueue.on('failed', (job, err) => {
-  console.error(`[Queue] Job ${job?.id} failed:`, err.message);
+  logger.error('[Queue] Job failed', { jobId: job?.id, requestId: job?.data?.requestId, error: err.message });
 });
 
 registrationQueue.on('stalled', (job) => {
-  console.warn(`[Queue] Job ${job.id} stalled`);
+  logger.warn('[Queue] Job stalled', { jobId: job.id, requestId: job.data.requestId });
 });
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
-  console.log('[Queue] Shutting down registration queue...');
+  logger.info('[Queue] Shutting down registration queue...');
   await registrationQueue.close();
 });
 
@@ -0,0 +1,21 @@
+import express from 'express';
+import {
+  listAddresses,
+  getAddress,
+  createAddress,
+  updateAddress,
+  deleteAddress,
+  setDefaultAddress
+} from '../controllers/addressController';
+
+// Mounted under /auth/profile/addresses behind authenticateToken
+const router = express.Router();
+
+router.get('/', listAddresses);
+router.post('/', createAddress);
+router.get('/:addressId', getAddress);
+router.put('/:addressId', updateAddress);
+router.delete('/:addressId', deleteAddress);
+router.put('/:addressId/default', setDefaultAddress);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from 'express';
+import { createKey, listKeys, revokeKey } from '../controllers/apiKeyController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+
+// API keys are managed with a user's own bearer token, never with a key
+const router = express.Router();
+
+router.use(authenticateToken);
+
+router.post('/', requireRole('staff', 'admin'), createKey);
+router.get('/', listKeys);
+router.delete('/:id', revokeKey);
+
+export default router;
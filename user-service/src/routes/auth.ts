@@ -1,15 +1,60 @@
 import express from 'express';
-import { register, login, getProfile, updateProfile } from '../controllers/authController';
+import {
+  register,
+  registerAsync,
+  registrationStatus,
+  login,
+  loginMfa,
+  refresh,
+  logout,
+  logoutAll,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
+  getProfile,
+  updateProfile,
+  changePassword,
+  deleteAccount
+} from '../controllers/authController';
+import { getMfaStatus, setupMfa, confirmMfa, disableMfa, regenerateRecoveryCodes } from '../controllers/mfaController';
+import { listProviders, authorize, callback } from '../controllers/oidcController';
+import { listSessions, revokeSession, revokeOtherUserSessions } from '../controllers/sessionController';
 import { authenticateToken } from '../middleware/auth';
+import addressRoutes from './addresses';
 
 const router = express.Router();
 
 // Public routes
 router.post('/register', register);
+router.post('/register/async', registerAsync);
+router.get('/register/status/:requestId', registrationStatus);
 router.post('/login', login);
+router.post('/login/mfa', loginMfa);
+router.post('/refresh', refresh);
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
+router.post('/verify-email', verifyEmail);
+router.get('/oidc/providers', listProviders);
+router.get('/oidc/:provider/authorize', authorize);
+router.post('/oidc/callback', callback);
 
 // Protected routes
 router.get('/profile', authenticateToken, getProfile);
 router.put('/profile', authenticateToken, updateProfile);
+router.use('/profile/addresses', authenticateToken, addressRoutes);
+router.put('/password', authenticateToken, changePassword);
+router.delete('/account', authenticateToken, deleteAccount);
+router.post('/logout', authenticateToken, logout);
+router.post('/logout-all', authenticateToken, logoutAll);
+router.get('/sessions', authenticateToken, listSessions);
+router.delete('/sessions', authenticateToken, revokeOtherUserSessions);
+router.delete('/sessions/:sessionId', authenticateToken, revokeSession);
+router.post('/verify-email/resend', authenticateToken, resendVerification);
+router.get('/mfa', authenticateToken, getMfaStatus);
+router.post('/mfa/setup', authenticateToken, setupMfa);
+router.post('/mfa/confirm', authenticateToken, confirmMfa);
+router.post('/mfa/disable', authenticateToken, disableMfa);
+router.post('/mfa/recovery-codes', authenticateToken, regenerateRecoveryCodes);
 
 export default router;
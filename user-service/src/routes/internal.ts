@@ -0,0 +1,17 @@
+import express from 'express';
+import { getUserAddress } from '../controllers/addressController';
+import { verifyKey } from '../controllers/apiKeyController';
+import { requireInternalToken } from '../middleware/auth';
+
+// Service-to-service routes, not exposed through the gateway
+const router = express.Router();
+
+router.use(requireInternalToken);
+
+// GET a saved address so order-service can snapshot it onto an order
+router.get('/users/:userId/addresses/:addressId', getUserAddress);
+
+// POST resolve an API key presented to the gateway
+router.post('/api-keys/verify', verifyKey);
+
+export default router;
@@ -0,0 +1,16 @@
+import express from 'express';
+import { listUsers, getUser, assignRoles, unlockUser, disableUser, enableUser, resetUserMfa } from '../controllers/userController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+
+const router = express.Router();
+
+// Admin routes
+router.get('/', authenticateToken, requireRole('admin'), listUsers);
+router.get('/:id', authenticateToken, requireRole('admin'), getUser);
+router.put('/:id/roles', authenticateToken, requireRole('admin'), assignRoles);
+router.post('/:id/unlock', authenticateToken, requireRole('admin'), unlockUser);
+router.post('/:id/disable', authenticateToken, requireRole('admin'), disableUser);
+router.post('/:id/enable', authenticateToken, requireRole('admin'), enableUser);
+router.post('/:id/mfa/reset', authenticateToken, requireRole('admin'), resetUserMfa);
+
+export default router;
@@ -0,0 +1,47 @@
+// ===== Account Deletion =====
+// Orders are anonymised first: if order-service is down nothing is deleted
+// and the user can try again, instead of leaving orders pointing at a
+// user that no longer exists.
+import { IUser, User } from '../models/User';
+import { RefreshToken } from '../models/RefreshToken';
+import { OneTimeToken } from '../models/OneTimeToken';
+import { ApiKey } from '../models/ApiKey';
+import { cache } from '../cache/redis';
+import { revokeAllSessions } from './tokenService';
+import { revokeUserApiKeys } from './apiKeys';
+import { anonymizeUserOrders } from './orderServiceClient';
+import { recordAuditEvent } from './audit';
+import { logger } from '../logging/logger';
+
+export const deleteUserAccount = async (user: Pick<IUser, '_id' | 'email'>) => {
+  const userId = String(user._id);
+
+  let ordersAnonymized: number;
+  try {
+    ordersAnonymized = await anonymizeUserOrders(userId);
+  } catch (error: any) {
+    logger.error('Account deletion aborted: order anonymisation failed', { userId, error: error.message });
+    return { ok: false as const };
+  }
+
+  // Access tokens stay rejected until they expire; then the records can go.
+  // Session records stay, marked revoked, as the fallback for the Redis
+  // revocation list, and their TTL removes them.
+  await revokeAllSessions(userId, 'account_deleted');
+  await revokeUserApiKeys(userId, 'account_deleted');
+  await Promise.all([
+    RefreshToken.deleteMany({ userId }),
+    ApiKey.deleteMany({ userId }),
+    OneTimeToken.deleteMany({ userId }),
+    User.deleteOne({ _id: user._id })
+  ]);
+
+  await cache.del(`user:profile:${userId}`);
+  await cache.del(`user:email:${user.email}`);
+  await cache.delPattern(`token:${userId}:*`);
+
+  // The audit record keeps the id only, not the email
+  await recordAuditEvent({ type: 'account_deleted', userId, details: { ordersAnonymized } });
+
+  return { ok: true as const, ordersAnonymized };
+};
@@ -0,0 +1,114 @@
+// ===== API Keys =====
+// Long-lived credentials for integrations (warehouse, ERP). A request made
+// with a key acts as the key's owner, limited to the key's scopes. The
+// gateway verifies keys through /internal/api-keys/verify and caches the
+// result briefly; revoking a key writes a marker the gateway checks.
+import crypto from 'crypto';
+import { ApiKey, ApiKeyScope, IApiKey } from '../models/ApiKey';
+import { User } from '../models/User';
+import { cache } from '../cache/redis';
+import { revokedApiKeyKey, API_KEY_VERIFY_CACHE_SECONDS } from './revocation';
+import { effectiveRoles } from './mfa';
+
+const KEY_PREFIX = 'ak_';
+
+export const API_KEY_LIMITS = {
+  MAX_KEYS_PER_USER: 25,
+  DEFAULT_RATE_LIMIT: Number(process.env.API_KEY_DEFAULT_RATE_LIMIT) || 600,  // Requests per minute
+  MAX_RATE_LIMIT: Number(process.env.API_KEY_MAX_RATE_LIMIT) || 6000
+};
+
+// Identity the gateway forwards for a request made with an API key
+export interface ApiKeyPrincipal {
+  keyId: string;
+  userId: string;
+  roles: string[];
+  emailVerified: boolean;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+}
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+export const formatApiKey = (apiKey: IApiKey) => ({
+  id: apiKey._id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  userId: apiKey.userId,
+  scopes: apiKey.scopes,
+  rateLimitPerMinute: apiKey.rateLimitPerMinute,
+  lastUsedAt: apiKey.lastUsedAt || null,
+  revokedAt: apiKey.revokedAt || null,
+  createdAt: apiKey.createdAt
+});
+
+export const countActiveApiKeys = (userId: string) =>
+  ApiKey.countDocuments({ userId: String(userId), revokedAt: null });
+
+// Returns the stored key and the plaintext key, which is never retrievable again
+export const createApiKey = async (
+  userId: string,
+  input: { name: string; scopes: ApiKeyScope[]; rateLimitPerMinute: number }
+) => {
+  const key = KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const apiKey = await ApiKey.create({
+    name: input.name,
+    keyHash: hashKey(key),
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    userId: String(userId),
+    scopes: Array.from(new Set(input.scopes)),
+    rateLimitPerMinute: input.rateLimitPerMinute
+  });
+  return { apiKey, key };
+};
+
+// Resolve a presented key to its owner's current roles, or null if the key
+// is unknown or revoked. Also records when the key was last used.
+export const verifyApiKey = async (key: string): Promise<ApiKeyPrincipal | null> => {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+
+  const apiKey = await ApiKey.findOneAndUpdate(
+    { keyHash: hashKey(key), revokedAt: null },
+    { lastUsedAt: new Date() },
+    { new: true }
+  ).lean();
+  if (!apiKey) return null;
+
+  const user = await User.findById(apiKey.userId).select('roles emailVerified mfa.enabled disabledAt').lean();
+  if (!user || user.disabledAt) return null;
+
+  return {
+    keyId: String(apiKey._id),
+    userId: apiKey.userId,
+    roles: effectiveRoles(user),
+    emailVerified: !!user.emailVerified,
+    scopes: apiKey.scopes,
+    rateLimitPerMinute: apiKey.rateLimitPerMinute
+  };
+};
+
+const markRevoked = (keyIds: string[], reason: string) =>
+  Promise.all(keyIds.map(keyId =>
+    cache.set(revokedApiKeyKey(keyId), { reason, revokedAt: new Date().toISOString() }, API_KEY_VERIFY_CACHE_SECONDS)
+  ));
+
+// Returns false if the key was already revoked
+export const revokeApiKey = async (keyId: string, reason: string) => {
+  const result = await ApiKey.updateOne({ _id: keyId, revokedAt: null }, { revokedAt: new Date() });
+  await markRevoked([keyId], reason);
+  return result.modifiedCount > 0;
+};
+
+// Make the gateway drop its cached copies of a user's keys, e.g. when the
+// account is disabled. The keys themselves stay valid in MongoDB.
+export const expireCachedUserApiKeys = async (userId: string, reason: string) => {
+  const keyIds = (await ApiKey.find({ userId: String(userId), revokedAt: null }).distinct('_id')).map(String);
+  await markRevoked(keyIds, reason);
+};
+
+export const revokeUserApiKeys = async (userId: string, reason: string) => {
+  const keyIds = (await ApiKey.find({ userId: String(userId), revokedAt: null }).distinct('_id')).map(String);
+  await ApiKey.updateMany({ _id: { $in: keyIds } }, { revokedAt: new Date() });
+  await markRevoked(keyIds, reason);
+  return keyIds.length;
+};
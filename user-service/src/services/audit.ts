@@ -0,0 +1,23 @@
+// ===== Audit Trail =====
+import { AuditEvent } from '../models/AuditEvent';
+import { logger } from '../logging/logger';
+
+export interface AuditEntry {
+  type: string;
+  userId?: string;
+  email?: string;
+  ip?: string;
+  actorId?: string;
+  details?: Record<string, any>;
+}
+
+// Persist an audit event and log it. Never throws: losing an audit record
+// must not fail the request that produced it.
+export const recordAuditEvent = async (entry: AuditEntry) => {
+  logger.info('Audit event', { audit: true, ...entry });
+  try {
+    await AuditEvent.create(entry);
+  } catch (error: any) {
+    logger.error('Audit event write failed', { type: entry.type, error: error.message });
+  }
+};
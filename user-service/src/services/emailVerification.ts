@@ -0,0 +1,45 @@
+// ===== Email Verification =====
+import redis from '../cache/redis';
+import { createOneTimeToken } from './oneTimeTokens';
+import { sendMail } from '../mail/transport';
+import { emailVerificationEmail } from '../mail/templates';
+import { logger } from '../logging/logger';
+
+const EMAIL_VERIFICATION_TTL_SECONDS = Number(process.env.EMAIL_VERIFICATION_TTL_SECONDS) || 86400; // 24 hours
+const RESEND_COOLDOWN_SECONDS = Number(process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS) || 60;
+
+interface VerifiableUser {
+  _id: unknown;
+  email: string;
+  name: string;
+}
+
+// Mail a fresh verification link; any earlier link stops working
+export const sendVerificationEmail = async (user: VerifiableUser) => {
+  const token = await createOneTimeToken(String(user._id), 'email_verification', EMAIL_VERIFICATION_TTL_SECONDS);
+  await sendMail(emailVerificationEmail(user.email, user.name, token, EMAIL_VERIFICATION_TTL_SECONDS / 3600));
+  logger.info('Verification email sent', { userId: String(user._id) });
+};
+
+// Registration must not fail because mail is down; the user can resend later
+export const sendVerificationEmailInBackground = (user: VerifiableUser) => {
+  sendVerificationEmail(user).catch(error =>
+    logger.error('Verification email error', { userId: String(user._id), error: error.message })
+  );
+};
+
+// Throttle resends per user. Returns 0 when a resend is allowed, otherwise
+// the seconds left until the next one.
+export const claimResendSlot = async (userId: string) => {
+  const key = `auth:verify-resend:${userId}`;
+  try {
+    const claimed = await redis.set(key, '1', 'EX', RESEND_COOLDOWN_SECONDS, 'NX');
+    if (claimed) return 0;
+    const ttl = await redis.ttl(key);
+    return ttl > 0 ? ttl : RESEND_COOLDOWN_SECONDS;
+  } catch (error: any) {
+    // Without Redis we can't count; let the resend through
+    logger.warn('Resend throttle unavailable', { error: error.message });
+    return 0;
+  }
+};
@@ -0,0 +1,134 @@
+// ===== Login Brute-Force Protection =====
+// Failed logins are counted in Redis per account (email) and per client IP.
+//   - From the Nth account failure on, each further attempt must wait a
+//     growing delay (1s, 2s, 4s, ... capped), answered with 429
+//   - After LOGIN_MAX_ACCOUNT_FAILURES the account is locked (423)
+//   - After LOGIN_MAX_IP_FAILURES the IP is blocked for the window (429)
+// Unknown emails are counted like real ones so responses don't reveal
+// which accounts exist.
+import redis from '../cache/redis';
+import { recordAuditEvent } from './audit';
+import { logger } from '../logging/logger';
+
+const FAILURE_WINDOW_SECONDS = Number(process.env.LOGIN_FAILURE_WINDOW_SECONDS) || 900;  // 15 minutes
+const MAX_ACCOUNT_FAILURES = Number(process.env.LOGIN_MAX_ACCOUNT_FAILURES) || 10;
+const MAX_IP_FAILURES = Number(process.env.LOGIN_MAX_IP_FAILURES) || 100;
+const LOCKOUT_SECONDS = Number(process.env.LOGIN_LOCKOUT_SECONDS) || 900;                // 15 minutes
+const DELAY_AFTER_FAILURES = 3;
+const MAX_DELAY_SECONDS = 30;
+
+const keys = {
+  accountFailures: (email: string) => `auth:login-fail:account:${email}`,
+  ipFailures: (ip: string) => `auth:login-fail:ip:${ip}`,
+  accountLock: (email: string) => `auth:login-lock:account:${email}`,
+  nextAttempt: (email: string) => `auth:login-next:account:${email}`
+};
+
+export type LoginBlock =
+  | { blocked: false }
+  | { blocked: true; status: 423 | 429; error: string; retryAfter: number };
+
+const NOT_BLOCKED: LoginBlock = { blocked: false };
+
+const remainingSeconds = async (key: string) => {
+  const ttl = await redis.ttl(key);
+  return ttl > 0 ? ttl : 0;
+};
+
+// Check before verifying the password
+export const checkLoginAllowed = async (email: string, ip: string): Promise<LoginBlock> => {
+  try {
+    const lockedFor = await remainingSeconds(keys.accountLock(email));
+    if (lockedFor > 0) {
+      return {
+        blocked: true,
+        status: 423,
+        error: 'Account temporarily locked due to too many failed login attempts',
+        retryAfter: lockedFor
+      };
+    }
+
+    const ipFailures = Number(await redis.get(keys.ipFailures(ip))) || 0;
+    if (ipFailures >= MAX_IP_FAILURES) {
+      return {
+        blocked: true,
+        status: 429,
+        error: 'Too many failed login attempts from this address',
+        retryAfter: await remainingSeconds(keys.ipFailures(ip)) || FAILURE_WINDOW_SECONDS
+      };
+    }
+
+    const waitFor = await remainingSeconds(keys.nextAttempt(email));
+    if (waitFor > 0) {
+      return {
+        blocked: true,
+        status: 429,
+        error: 'Too many failed login attempts. Slow down.',
+        retryAfter: waitFor
+      };
+    }
+
+    return NOT_BLOCKED;
+  } catch (error: any) {
+    // Fail open: Redis being down must not stop every login
+    logger.warn('Login throttle unavailable', { error: error.message });
+    return NOT_BLOCKED;
+  }
+};
+
+// INCR and EXPIRE in one script, so a counter can't be left without a TTL.
+// Only a counter without one gets it, which keeps the window fixed.
+const INCREMENT_WITHIN_WINDOW_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if redis.call('TTL', KEYS[1]) == -1 then
+  redis.call('EXPIRE', KEYS[1], ARGV[1])
+end
+return count`;
+
+const incrementWithinWindow = async (key: string) =>
+  Number(await redis.eval(INCREMENT_WITHIN_WINDOW_SCRIPT, 1, key, FAILURE_WINDOW_SECONDS));
+
+export const recordLoginFailure = async (email: string, ip: string, userId?: string) => {
+  try {
+    const [accountFailures, ipFailures] = await Promise.all([
+      incrementWithinWindow(keys.accountFailures(email)),
+      incrementWithinWindow(keys.ipFailures(ip))
+    ]);
+
+    if (accountFailures >= MAX_ACCOUNT_FAILURES) {
+      await redis.set(keys.accountLock(email), '1', 'EX', LOCKOUT_SECONDS);
+      await redis.del(keys.accountFailures(email), keys.nextAttempt(email));
+      await recordAuditEvent({
+        type: 'login_lockout',
+        userId,
+        email,
+        ip,
+        details: { failures: accountFailures, lockoutSeconds: LOCKOUT_SECONDS }
+      });
+    } else if (accountFailures >= DELAY_AFTER_FAILURES) {
+      const delay = Math.min(2 ** (accountFailures - DELAY_AFTER_FAILURES), MAX_DELAY_SECONDS);
+      await redis.set(keys.nextAttempt(email), '1', 'EX', delay);
+    }
+
+    if (ipFailures === MAX_IP_FAILURES) {
+      await recordAuditEvent({ type: 'login_ip_blocked', ip, details: { failures: ipFailures } });
+    }
+  } catch (error: any) {
+    logger.warn('Login throttle unavailable', { error: error.message });
+  }
+};
+
+// A successful login clears the account's failure history (not the IP's)
+export const clearLoginFailures = async (email: string) => {
+  try {
+    await redis.del(keys.accountFailures(email), keys.nextAttempt(email));
+  } catch (error: any) {
+    logger.warn('Login throttle unavailable', { error: error.message });
+  }
+};
+
+// Admin unlock: lift the lock and forget recent failures
+export const unlockAccount = async (email: string) => {
+  const removed = await redis.del(keys.accountLock(email), keys.accountFailures(email), keys.nextAttempt(email));
+  return removed > 0;
+};
@@ -0,0 +1,134 @@
+// ===== Multi-Factor Authentication =====
+// TOTP enrolment, second-factor checks, recovery codes and the MFA policy.
+// MFA_REQUIRED_ROLES (e.g. "admin,staff") lists roles that only count once
+// the user has MFA on: until then tokens are issued without those roles, so
+// the user can still sign in and enrol.
+import crypto from 'crypto';
+import { IUser, User } from '../models/User';
+import { generateTotpSecret, otpauthUri, verifyTotp } from './totp';
+import { createOneTimeToken, findOneTimeToken, consumeOneTimeToken, recordFailedAttempt } from './oneTimeTokens';
+
+const MFA_ISSUER = process.env.MFA_ISSUER || 'E-commerce';
+const RECOVERY_CODE_COUNT = 10;
+export const MFA_CHALLENGE_TTL_SECONDS = 300;   // 5 minutes to enter the code
+const MFA_CHALLENGE_MAX_ATTEMPTS = 5;
+
+const MFA_REQUIRED_ROLES = (process.env.MFA_REQUIRED_ROLES || '')
+  .split(',')
+  .map(role => role.trim())
+  .filter(Boolean);
+
+type MfaPolicyFields = Pick<IUser, 'roles'> & { mfa?: Pick<IUser['mfa'], 'enabled'> };
+
+export const mfaRequiredFor = (user: Pick<IUser, 'roles'>) =>
+  user.roles.some(role => MFA_REQUIRED_ROLES.includes(role));
+
+export const mfaEnrolmentRequired = (user: MfaPolicyFields) =>
+  !user.mfa?.enabled && mfaRequiredFor(user);
+
+// Roles to put in tokens and API key identities under the MFA policy
+export const effectiveRoles = (user: MfaPolicyFields) =>
+  user.mfa?.enabled ? user.roles : user.roles.filter(role => !MFA_REQUIRED_ROLES.includes(role));
+
+// ===== Recovery Codes =====
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+
+// Returns the plaintext codes, to be shown once; only hashes are stored
+export const replaceRecoveryCodes = async (userId: string) => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  await User.updateOne({ _id: userId }, { 'mfa.recoveryCodeHashes': codes.map(hashRecoveryCode) });
+  return codes;
+};
+
+// ===== Enrolment =====
+export const startMfaSetup = async (user: Pick<IUser, '_id' | 'email'>) => {
+  const secret = generateTotpSecret();
+  await User.updateOne({ _id: user._id }, { 'mfa.pendingSecret': secret });
+  return { secret, otpauthUri: otpauthUri(secret, user.email, MFA_ISSUER) };
+};
+
+// Turn MFA on once the user proves their app has the pending secret
+export const confirmMfaSetup = async (userId: string, code: string) => {
+  const user = await User.findById(userId).select('+mfa.pendingSecret');
+  const pendingSecret = user?.mfa?.pendingSecret;
+  if (!user || !pendingSecret) return false;
+
+  const step = verifyTotp(pendingSecret, code);
+  if (step === null) return false;
+
+  await User.updateOne({ _id: userId }, {
+    $set: { 'mfa.enabled': true, 'mfa.secret': pendingSecret, 'mfa.lastUsedStep': step, 'mfa.enabledAt': new Date() },
+    $unset: { 'mfa.pendingSecret': 1 }
+  });
+  return true;
+};
+
+export const turnOffMfa = (userId: string) =>
+  User.updateOne({ _id: userId }, {
+    $set: { 'mfa.enabled': false, 'mfa.recoveryCodeHashes': [] },
+    $unset: { 'mfa.secret': 1, 'mfa.pendingSecret': 1, 'mfa.lastUsedStep': 1, 'mfa.enabledAt': 1 }
+  });
+
+// ===== Second-Factor Check =====
+export interface SecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+// Accepts a current TOTP code or an unused recovery code. TOTP steps and
+// recovery codes are claimed atomically, so neither works twice.
+export const verifySecondFactor = async (userId: string, input: SecondFactorInput): Promise<'totp' | 'recovery' | null> => {
+  const user = await User.findById(userId).select('+mfa.secret mfa.enabled mfa.lastUsedStep').lean();
+  if (!user?.mfa?.enabled || !user.mfa.secret) return null;
+
+  if (typeof input.code === 'string') {
+    const step = verifyTotp(user.mfa.secret, input.code, user.mfa.lastUsedStep);
+    if (step === null) return null;
+
+    const claimed = await User.updateOne(
+      { _id: userId, 'mfa.lastUsedStep': { $not: { $gte: step } } },
+      { 'mfa.lastUsedStep': step }
+    );
+    return claimed.modifiedCount > 0 ? 'totp' : null;
+  }
+
+  if (typeof input.recoveryCode === 'string') {
+    const hash = hashRecoveryCode(input.recoveryCode);
+    const claimed = await User.updateOne(
+      { _id: userId, 'mfa.recoveryCodeHashes': hash },
+      { $pull: { 'mfa.recoveryCodeHashes': hash } }
+    );
+    return claimed.modifiedCount > 0 ? 'recovery' : null;
+  }
+
+  return null;
+};
+
+// ===== Login Challenge =====
+// Issued after a correct password when MFA is on; exchanged for tokens
+// together with a second factor
+export const createMfaChallenge = (userId: string) =>
+  createOneTimeToken(userId, 'mfa_challenge', MFA_CHALLENGE_TTL_SECONDS);
+
+export const findMfaChallenge = (challengeToken: string) =>
+  findOneTimeToken(challengeToken, 'mfa_challenge');
+
+// Check the second factor against a challenge found with findMfaChallenge.
+// Wrong codes count against the challenge, which dies after a few.
+export const completeMfaChallenge = async (challengeToken: string, userId: string, input: SecondFactorInput) => {
+  const method = await verifySecondFactor(userId, input);
+  if (!method) {
+    await recordFailedAttempt(challengeToken, 'mfa_challenge', MFA_CHALLENGE_MAX_ATTEMPTS);
+    return null;
+  }
+
+  // Lost a race with a concurrent completion of the same challenge
+  if (!await consumeOneTimeToken(challengeToken, 'mfa_challenge')) {
+    return null;
+  }
+  return method;
+};
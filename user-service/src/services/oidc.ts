@@ -0,0 +1,287 @@
+// ===== OpenID Connect Login =====
+// Authorization code flow with PKCE against the providers in
+// config/oidcProviders. The browser is sent to the provider with a state,
+// a nonce and a code challenge; the callback trades the code for an ID token,
+// which is checked against the provider's published keys. Accounts are found
+// by a previously linked identity, or linked by email when the provider says
+// the email is verified.
+import crypto, { KeyObject } from 'crypto';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import { OidcProvider, OIDC_REDIRECT_URI, getOidcProvider } from '../config/oidcProviders';
+import { OidcLoginState } from '../models/OidcLoginState';
+import { IUser, User } from '../models/User';
+import { recordAuditEvent } from './audit';
+import { logger } from '../logging/logger';
+
+export const OIDC_LOGIN_TTL_SECONDS = 600;         // 10 minutes to finish at the provider
+const METADATA_CACHE_TTL_MS = 3600000;             // 1 hour
+const MIN_JWKS_REFETCH_INTERVAL_MS = 30000;
+const REQUEST_TIMEOUT_MS = 10000;
+const ID_TOKEN_ALGORITHM = 'RS256';
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface ProviderKeys {
+  keys: Map<string, KeyObject>;
+  attemptedAt: number;
+}
+
+// Claims we use from a verified ID token
+export interface OidcIdentity {
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+}
+
+export type OidcStartResult =
+  | { ok: true; authorizationUrl: string; state: string; expiresIn: number }
+  | { ok: false; reason: 'provider_unavailable' };
+
+export type OidcCallbackResult =
+  | { ok: true; provider: OidcProvider; identity: OidcIdentity }
+  | { ok: false; reason: 'invalid_state' | 'code_rejected' | 'invalid_id_token' | 'provider_unavailable' };
+
+export type OidcAccountResult =
+  | { ok: true; user: IUser }
+  | { ok: false; reason: 'email_not_verified' | 'identity_conflict' };
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest();
+const randomToken = (bytes: number) => crypto.randomBytes(bytes).toString('base64url');
+
+// ===== Discovery & Keys =====
+const metadataCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+const keyCache = new Map<string, ProviderKeys>();
+
+const getMetadata = async (provider: OidcProvider) => {
+  const cached = metadataCache.get(provider.id);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const response = await axios.get(`${provider.issuer}/.well-known/openid-configuration`, { timeout: REQUEST_TIMEOUT_MS });
+  const metadata: ProviderMetadata = response.data;
+  if (!metadata?.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new Error('Discovery document is missing endpoints');
+  }
+  if (metadata.issuer?.replace(/\/+$/, '') !== provider.issuer) {
+    throw new Error(`Discovery document is for issuer ${metadata.issuer}`);
+  }
+
+  metadataCache.set(provider.id, { metadata, fetchedAt: Date.now() });
+  return metadata;
+};
+
+const fetchKeys = async (provider: OidcProvider, metadata: ProviderMetadata) => {
+  const response = await axios.get(metadata.jwks_uri, { timeout: REQUEST_TIMEOUT_MS });
+
+  const keys = new Map<string, KeyObject>();
+  for (const jwk of response.data?.keys || []) {
+    if (jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig')) {
+      keys.set(jwk.kid || '', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+  }
+  keyCache.set(provider.id, { keys, attemptedAt: Date.now() });
+  return keys;
+};
+
+// Key for an ID token's kid. Providers rotate keys, so an unknown kid
+// triggers a refetch, at most once per MIN_JWKS_REFETCH_INTERVAL_MS.
+const getSigningKey = async (provider: OidcProvider, metadata: ProviderMetadata, kid = '') => {
+  const cached = keyCache.get(provider.id);
+  if (cached?.keys.has(kid)) {
+    return cached.keys.get(kid);
+  }
+  if (cached && Date.now() - cached.attemptedAt < MIN_JWKS_REFETCH_INTERVAL_MS) {
+    return undefined;
+  }
+  return (await fetchKeys(provider, metadata)).get(kid);
+};
+
+// ===== Login Flow =====
+
+// Step 1: remember the verifier and nonce, and build the provider's login URL
+export const startOidcLogin = async (provider: OidcProvider, loginHint?: string): Promise<OidcStartResult> => {
+  let metadata: ProviderMetadata;
+  try {
+    metadata = await getMetadata(provider);
+  } catch (error: any) {
+    logger.error('OIDC discovery error', { provider: provider.id, error: error.message });
+    return { ok: false, reason: 'provider_unavailable' };
+  }
+
+  const state = randomToken(32);
+  const nonce = randomToken(16);
+  const codeVerifier = randomToken(32);
+
+  await OidcLoginState.create({
+    stateHash: sha256(state).toString('hex'),
+    provider: provider.id,
+    codeVerifier,
+    nonce,
+    expiresAt: new Date(Date.now() + OIDC_LOGIN_TTL_SECONDS * 1000)
+  });
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', OIDC_REDIRECT_URI);
+  url.searchParams.set('scope', provider.scopes);
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', sha256(codeVerifier).toString('base64url'));
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (loginHint) {
+    url.searchParams.set('login_hint', loginHint);
+  }
+
+  return { ok: true, authorizationUrl: url.toString(), state, expiresIn: OIDC_LOGIN_TTL_SECONDS };
+};
+
+// Step 2: trade the code for an ID token and verify it. A state works once.
+export const completeOidcLogin = async (state: string, code: string): Promise<OidcCallbackResult> => {
+  const pending = await OidcLoginState.findOneAndDelete({
+    stateHash: sha256(state).toString('hex'),
+    expiresAt: { $gt: new Date() }
+  }).lean();
+  const provider = pending && getOidcProvider(pending.provider);
+  if (!pending || !provider) {
+    return { ok: false, reason: 'invalid_state' };
+  }
+
+  let metadata: ProviderMetadata;
+  let idToken: string;
+  try {
+    metadata = await getMetadata(provider);
+    const response = await axios.post(metadata.token_endpoint, new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: OIDC_REDIRECT_URI,
+      client_id: provider.clientId,
+      code_verifier: pending.codeVerifier,
+      ...(provider.clientSecret ? { client_secret: provider.clientSecret } : {})
+    }).toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: REQUEST_TIMEOUT_MS
+    });
+    idToken = response.data?.id_token;
+  } catch (error: any) {
+    if (error.response) {
+      logger.warn('OIDC code exchange rejected', { provider: provider.id, status: error.response.status, error: error.response.data?.error });
+      return { ok: false, reason: 'code_rejected' };
+    }
+    logger.error('OIDC token endpoint error', { provider: provider.id, error: error.message });
+    return { ok: false, reason: 'provider_unavailable' };
+  }
+
+  if (typeof idToken !== 'string') {
+    logger.warn('OIDC token response without an ID token', { provider: provider.id });
+    return { ok: false, reason: 'invalid_id_token' };
+  }
+
+  try {
+    const header = jwt.decode(idToken, { complete: true })?.header;
+    const key = header && await getSigningKey(provider, metadata, header.kid);
+    if (!key) {
+      throw new jwt.JsonWebTokenError('Unknown signing key');
+    }
+
+    const claims = jwt.verify(idToken, key, {
+      algorithms: [ID_TOKEN_ALGORITHM],
+      issuer: metadata.issuer,
+      audience: provider.clientId
+    }) as jwt.JwtPayload;
+
+    if (claims.nonce !== pending.nonce) {
+      throw new jwt.JsonWebTokenError('Nonce mismatch');
+    }
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new jwt.JsonWebTokenError('Missing subject');
+    }
+
+    return {
+      ok: true,
+      provider,
+      identity: {
+        subject: claims.sub,
+        email: typeof claims.email === 'string' ? claims.email.toLowerCase() : undefined,
+        // Some providers send the flag as a string
+        emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+        name: typeof claims.name === 'string' ? claims.name : undefined
+      }
+    };
+  } catch (error: any) {
+    logger.warn('OIDC ID token rejected', { provider: provider.id, error: error.message });
+    return { ok: false, reason: 'invalid_id_token' };
+  }
+};
+
+// ===== Account Linking =====
+// 1. An identity linked before signs in as its user, even if the email changed since.
+// 2. Otherwise the provider must vouch for the email. A user with that email
+//    gets the identity linked; if there is none, an account is created
+//    without a password.
+export const findOrLinkOidcUser = async (provider: OidcProvider, identity: OidcIdentity): Promise<OidcAccountResult> => {
+  const linked = await User.findOne({
+    identities: { $elemMatch: { provider: provider.id, subject: identity.subject } }
+  });
+  if (linked) {
+    return { ok: true, user: linked };
+  }
+
+  if (!identity.email || !identity.emailVerified) {
+    return { ok: false, reason: 'email_not_verified' };
+  }
+
+  const newIdentity = { provider: provider.id, subject: identity.subject, email: identity.email, linkedAt: new Date() };
+
+  const existing = await User.findOne({ email: identity.email });
+  if (existing) {
+    // One identity per provider; a second one with the same email is someone else's
+    if (existing.identities.some(linkedIdentity => linkedIdentity.provider === provider.id)) {
+      return { ok: false, reason: 'identity_conflict' };
+    }
+
+    existing.identities.push(newIdentity);
+    existing.emailVerified = true;
+    await existing.save();
+
+    await recordAuditEvent({
+      type: 'oidc_identity_linked',
+      userId: String(existing._id),
+      email: existing.email,
+      details: { provider: provider.id, subject: identity.subject }
+    });
+    return { ok: true, user: existing };
+  }
+
+  const user = new User({
+    email: identity.email,
+    name: identity.name || identity.email.split('@')[0],
+    emailVerified: true,
+    identities: [newIdentity]
+  });
+  try {
+    await user.save();
+  } catch (error: any) {
+    // Lost a race with a concurrent login or registration; link instead
+    if (error.code === 11000) {
+      return findOrLinkOidcUser(provider, identity);
+    }
+    throw error;
+  }
+
+  await recordAuditEvent({
+    type: 'oidc_account_created',
+    userId: String(user._id),
+    email: user.email,
+    details: { provider: provider.id, subject: identity.subject }
+  });
+  return { ok: true, user };
+};
@@ -0,0 +1,55 @@
+// ===== Single-Use Mailed Tokens =====
+import crypto from 'crypto';
+import { OneTimeToken, OneTimeTokenPurpose } from '../models/OneTimeToken';
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Issue a token, replacing any unused one the user already has for this purpose
+export const createOneTimeToken = async (userId: string, purpose: OneTimeTokenPurpose, ttlSeconds: number) => {
+  await invalidateOneTimeTokens(userId, purpose);
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  await OneTimeToken.create({
+    tokenHash: hashToken(token),
+    userId: String(userId),
+    purpose,
+    expiresAt: new Date(Date.now() + ttlSeconds * 1000)
+  });
+  return token;
+};
+
+// Mark a token used and return its user id, or null if it is unknown,
+// expired or already used. The update is atomic so a token works only once.
+export const consumeOneTimeToken = async (token: string, purpose: OneTimeTokenPurpose) => {
+  const record = await OneTimeToken.findOneAndUpdate(
+    { tokenHash: hashToken(token), purpose, usedAt: null, expiresAt: { $gt: new Date() } },
+    { usedAt: new Date() }
+  ).lean();
+  return record ? record.userId : null;
+};
+
+// Look a token up without using it, for flows that check something else
+// (such as an MFA code) before consuming the token
+export const findOneTimeToken = (token: string, purpose: OneTimeTokenPurpose) =>
+  OneTimeToken.findOne(
+    { tokenHash: hashToken(token), purpose, usedAt: null, expiresAt: { $gt: new Date() } }
+  ).lean();
+
+// Count a wrong guess against the token; it stops working after maxAttempts
+export const recordFailedAttempt = async (token: string, purpose: OneTimeTokenPurpose, maxAttempts: number) => {
+  const record = await OneTimeToken.findOneAndUpdate(
+    { tokenHash: hashToken(token), purpose, usedAt: null },
+    { $inc: { failedAttempts: 1 } },
+    { new: true }
+  ).lean();
+  if (record && record.failedAttempts >= maxAttempts) {
+    await OneTimeToken.updateOne({ _id: record._id }, { usedAt: new Date() });
+  }
+};
+
+export const invalidateOneTimeTokens = async (userId: string, purpose: OneTimeTokenPurpose) => {
+  await OneTimeToken.updateMany(
+    { userId: String(userId), purpose, usedAt: null },
+    { usedAt: new Date() }
+  );
+};
@@ -0,0 +1,25 @@
+// ===== Order Service Client =====
+import axios from 'axios';
+import { getInternalApiToken } from '../config/internalApi';
+import { getRequestId } from '../logging/logger';
+
+const ORDER_SERVICE_URL = process.env.ORDER_SERVICE_URL || 'http://localhost:3003';
+
+const internalHeaders = () => {
+  const requestId = getRequestId();
+  return {
+    'X-Internal-Token': getInternalApiToken(),
+    ...(requestId ? { 'X-Request-Id': requestId } : {})
+  };
+};
+
+// Detach a deleted user's orders from their account. Throws if order-service
+// can't be reached so the deletion can be retried.
+export const anonymizeUserOrders = async (userId: string): Promise<number> => {
+  const response = await axios.post(
+    `${ORDER_SERVICE_URL}/internal/users/${encodeURIComponent(userId)}/anonymize-orders`,
+    {},
+    { headers: internalHeaders(), timeout: 10000 }
+  );
+  return response.data.ordersAnonymized;
+};
@@ -0,0 +1,25 @@
+// ===== Session Revocation List =====
+// Revoked session ids live in Redis for as long as an access token issued to
+// that session could still be valid. user-service writes the list and every
+// token check (here and in the gateway) reads it.
+import { cache } from '../cache/redis';
+
+// The gateway caches a verified API key for at most this long, so a revoked
+// key's marker has to outlive any cached copy
+export const API_KEY_VERIFY_CACHE_SECONDS = 60;
+
+export const revokedSessionKey = (sessionId: string) => `auth:revoked:session:${sessionId}`;
+
+export const revokedApiKeyKey = (keyId: string) => `auth:revoked:apikey:${keyId}`;
+
+// Fails open when Redis is down: access tokens are short-lived, so a revoked
+// session can outlive its revocation by at most one access-token lifetime
+export const isSessionRevoked = async (sessionId: string) => {
+  const entry = await cache.get(revokedSessionKey(sessionId));
+  return !!entry;
+};
+
+export const isApiKeyRevoked = async (keyId: string) => {
+  const entry = await cache.get(revokedApiKeyKey(keyId));
+  return !!entry;
+};
@@ -0,0 +1,96 @@
+// ===== Session Records =====
+// Device, IP and activity for each session, shown to the user so they can
+// end the ones they don't recognise. Revocation itself lives in tokenService.
+import { Request } from 'express';
+import { Session } from '../models/Session';
+import { clientIp } from '../middleware/clientIp';
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+// Where a session was started or refreshed from
+export interface SessionContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+export const sessionContext = (req: Request): SessionContext => ({
+  ip: clientIp(req),
+  userAgent: req.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH)
+});
+
+// Order matters: Edge and Opera also claim Chrome, Chrome also claims Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/curl\//, 'curl'],
+  [/okhttp|Dalvik/, 'Android app'],
+  [/CFNetwork/, 'iOS app']
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+// "Chrome on macOS"; good enough to tell devices apart, not for analytics
+export const describeUserAgent = (userAgent?: string) => {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || userAgent.split(/[\s/]/)[0] || 'Unknown device';
+};
+
+export const recordSession = async (sessionId: string, userId: string, context: SessionContext, expiresAt: Date) => {
+  await Session.create({
+    sessionId,
+    userId,
+    userAgent: context.userAgent,
+    device: describeUserAgent(context.userAgent),
+    ip: context.ip,
+    lastSeenAt: new Date(),
+    lastSeenIp: context.ip,
+    expiresAt
+  });
+};
+
+// On refresh. Sessions started before records existed get one here.
+export const touchSession = async (sessionId: string, userId: string, context: SessionContext, expiresAt: Date) => {
+  await Session.updateOne(
+    { sessionId },
+    {
+      $set: { lastSeenAt: new Date(), lastSeenIp: context.ip, expiresAt },
+      $setOnInsert: {
+        userId,
+        userAgent: context.userAgent,
+        device: describeUserAgent(context.userAgent),
+        ip: context.ip
+      }
+    },
+    { upsert: true }
+  );
+};
+
+export const markSessionsRevoked = async (sessionIds: string[], reason: string) => {
+  await Session.updateMany(
+    { sessionId: { $in: sessionIds }, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+};
+
+// Backs up the Redis revocation list: consulted when a token is verified
+// from scratch, so a revocation survives a Redis restart
+export const isSessionRecordRevoked = async (sessionId: string) =>
+  !!await Session.exists({ sessionId, revokedAt: { $ne: null } });
+
+export const findSessions = (userId: string, sessionIds: string[]) =>
+  Session.find({ userId: String(userId), sessionId: { $in: sessionIds }, revokedAt: null })
+    .sort({ lastSeenAt: -1 })
+    .lean();
@@ -0,0 +1,165 @@
+// ===== Access & Refresh Tokens =====
+// Access tokens are short-lived JWTs carrying the session id (sid). Refresh
+// tokens are opaque, stored hashed in MongoDB and rotated on every use.
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { RefreshToken } from '../models/RefreshToken';
+import { IUser, User } from '../models/User';
+import { cache } from '../cache/redis';
+import { getActiveSigningKey, getVerificationKey, JWT_ALGORITHM } from '../config/signingKeys';
+import { revokedSessionKey } from './revocation';
+import { SessionContext, recordSession, touchSession, markSessionsRevoked } from './sessions';
+import { effectiveRoles } from './mfa';
+import { logger } from '../logging/logger';
+
+export const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 900;          // 15 minutes
+export const REFRESH_TOKEN_TTL_SECONDS = Number(process.env.REFRESH_TOKEN_TTL_SECONDS) || 2592000;    // 30 days
+
+// User attributes embedded in access tokens and forwarded by the gateway
+export interface TokenClaims {
+  roles: string[];
+  emailVerified: boolean;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export type RefreshResult =
+  | { ok: true; userId: string; tokens: IssuedTokens }
+  | { ok: false; reason: 'invalid' | 'reused' };
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Roles covered by the MFA policy are left out until the user has MFA on
+export const tokenClaims = (user: Pick<IUser, 'roles' | 'emailVerified'> & { mfa?: Pick<IUser['mfa'], 'enabled'> }): TokenClaims => ({
+  roles: effectiveRoles(user),
+  emailVerified: !!user.emailVerified
+});
+
+const signAccessToken = (userId: string, claims: TokenClaims, sessionId: string) => {
+  const { kid, privateKey } = getActiveSigningKey();
+  return jwt.sign(
+    { userId, ...claims, sid: sessionId },
+    privateKey,
+    { algorithm: JWT_ALGORITHM, keyid: kid, expiresIn: ACCESS_TOKEN_TTL_SECONDS, jwtid: crypto.randomUUID() }
+  );
+};
+
+// Verify against the key named by the token's kid; throws like jwt.verify
+export const verifyAccessToken = (token: string) => {
+  const header = jwt.decode(token, { complete: true })?.header;
+  const key = getVerificationKey(header?.kid);
+  if (!key) {
+    throw new jwt.JsonWebTokenError('Unknown signing key');
+  }
+  return jwt.verify(token, key, { algorithms: [JWT_ALGORITHM] });
+};
+
+const createRefreshToken = async (userId: string, sessionId: string, expiresAt: Date) => {
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+  await RefreshToken.create({
+    tokenHash: hashToken(refreshToken),
+    userId,
+    sessionId,
+    expiresAt
+  });
+  return refreshToken;
+};
+
+const issueForSession = async (userId: string, claims: TokenClaims, sessionId: string, expiresAt: Date): Promise<IssuedTokens> => ({
+  token: signAccessToken(userId, claims, sessionId),
+  refreshToken: await createRefreshToken(userId, sessionId, expiresAt),
+  expiresIn: ACCESS_TOKEN_TTL_SECONDS
+});
+
+const refreshTokenExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000);
+
+// Start a new session (login / register), recording the device it came from
+export const issueTokens = async (userId: string, claims: TokenClaims, context: SessionContext) => {
+  const sessionId = crypto.randomUUID();
+  const expiresAt = refreshTokenExpiry();
+  await recordSession(sessionId, String(userId), context, expiresAt);
+  return issueForSession(String(userId), claims, sessionId, expiresAt);
+};
+
+// Revoke sessions: their refresh tokens stop working immediately and their
+// access tokens are rejected until they would have expired anyway
+export const revokeSessions = async (sessionIds: string[], reason: string) => {
+  if (sessionIds.length === 0) return;
+
+  await RefreshToken.updateMany(
+    { sessionId: { $in: sessionIds }, revokedAt: null },
+    { revokedAt: new Date() }
+  );
+  await Promise.all(sessionIds.map(sessionId =>
+    cache.set(revokedSessionKey(sessionId), { reason, revokedAt: new Date().toISOString() }, ACCESS_TOKEN_TTL_SECONDS)
+  ));
+  await markSessionsRevoked(sessionIds, reason);
+};
+
+// Every session that still has a usable refresh token
+export const getActiveSessionIds = async (userId: string): Promise<string[]> =>
+  RefreshToken.distinct('sessionId', {
+    userId: String(userId),
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  });
+
+export const revokeAllSessions = async (userId: string, reason: string) => {
+  const sessionIds = await getActiveSessionIds(userId);
+  await revokeSessions(sessionIds, reason);
+  return sessionIds.length;
+};
+
+// Change of password: end every session except the one making the change
+export const revokeOtherSessions = async (userId: string, keepSessionId: string, reason: string) => {
+  const sessionIds = (await getActiveSessionIds(userId)).filter(id => id !== keepSessionId);
+  await revokeSessions(sessionIds, reason);
+  return sessionIds.length;
+};
+
+// Exchange a refresh token for a new pair. A token can only be used once;
+// presenting one that was already rotated means it leaked, so the whole
+// session is revoked.
+export const rotateRefreshToken = async (refreshToken: string, context: SessionContext): Promise<RefreshResult> => {
+  const tokenHash = hashToken(refreshToken);
+
+  // Claim the token atomically so concurrent refreshes can't both succeed
+  const current = await RefreshToken.findOneAndUpdate(
+    { tokenHash, rotatedAt: null, revokedAt: null, expiresAt: { $gt: new Date() } },
+    { rotatedAt: new Date() },
+    { new: true }
+  ).lean();
+
+  if (current) {
+    // Claims are re-read on every refresh so role or verification changes
+    // apply within one access-token lifetime
+    const user = await User.findById(current.userId).select('roles emailVerified mfa.enabled disabledAt').lean();
+    if (!user || user.disabledAt) {
+      return { ok: false, reason: 'invalid' };
+    }
+
+    const expiresAt = refreshTokenExpiry();
+    await touchSession(current.sessionId, current.userId, context, expiresAt);
+    return {
+      ok: true,
+      userId: current.userId,
+      tokens: await issueForSession(current.userId, tokenClaims(user), current.sessionId, expiresAt)
+    };
+  }
+
+  const existing = await RefreshToken.findOne({ tokenHash }).lean();
+  if (existing?.rotatedAt && !existing.revokedAt) {
+    logger.warn('Refresh token reuse detected, revoking session', {
+      userId: existing.userId,
+      sessionId: existing.sessionId
+    });
+    await revokeSessions([existing.sessionId], 'refresh_token_reuse');
+    return { ok: false, reason: 'reused' };
+  }
+
+  return { ok: false, reason: 'invalid' };
+};
@@ -0,0 +1,88 @@
+// ===== TOTP (RFC 6238) =====
+// HMAC-SHA1, 6 digits, 30-second steps: the defaults every authenticator app
+// supports. Secrets are exchanged as base32.
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const DIGITS = 6;
+const STEP_SECONDS = 30;
+const ALLOWED_DRIFT_STEPS = 1;   // Accept the previous and next code for clock skew
+const SECRET_BYTES = 20;
+
+export const base32Encode = (data: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+export const base32Decode = (input: string) => {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(SECRET_BYTES));
+
+const hotp = (key: Buffer, counter: number) => {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+  message.writeUInt32BE(counter % 2 ** 32, 4);
+
+  const hmac = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+export const currentTotpStep = (now = Date.now()) => Math.floor(now / 1000 / STEP_SECONDS);
+
+export const totpCode = (secret: string, step = currentTotpStep()) => hotp(base32Decode(secret), step);
+
+// Returns the matched time step, or null. Steps up to and including
+// lastUsedStep are refused so a code can't be replayed.
+export const verifyTotp = (secret: string, code: string, lastUsedStep?: number, now = Date.now()) => {
+  const normalized = String(code).replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== DIGITS) return null;
+
+  const key = base32Decode(secret);
+  const current = currentTotpStep(now);
+  for (let drift = -ALLOWED_DRIFT_STEPS; drift <= ALLOWED_DRIFT_STEPS; drift++) {
+    const step = current + drift;
+    if (lastUsedStep !== undefined && step <= lastUsedStep) continue;
+    if (crypto.timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+};
+
+// For QR codes: otpauth://totp/Issuer:account?secret=...
+export const otpauthUri = (secret: string, account: string, issuer: string) =>
+  `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(account)}` +
+  `?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
@@ -0,0 +1,115 @@
+// ===== User Registration =====
+// Shared by the synchronous /auth/register route and the registration queue
+// worker, so both paths validate, create and cache users the same way.
+import bcrypt from 'bcryptjs';
+import { IUser, User } from '../models/User';
+import { cache } from '../cache/redis';
+import { issueTokens, tokenClaims, IssuedTokens } from './tokenService';
+import { SessionContext } from './sessions';
+import { sendVerificationEmailInBackground } from './emailVerification';
+
+// Reduced from 10 to 8 rounds: ~4x faster hashing with minimal security impact
+const BCRYPT_ROUNDS = 8;
+const PROFILE_CACHE_TTL = 300;
+
+export interface RegistrationInput {
+  email: string;
+  password: string;
+  name: string;
+}
+
+export type RegistrationResult =
+  | { ok: true; tokens: IssuedTokens; user: ReturnType<typeof toUserProfile> }
+  | { ok: false; status: 400; error: string };
+
+export const toUserProfile = (user: Pick<IUser, '_id' | 'email' | 'name' | 'roles' | 'emailVerified' | 'createdAt'>) => ({
+  id: user._id,
+  email: user.email,
+  name: user.name,
+  roles: user.roles,
+  emailVerified: user.emailVerified,
+  createdAt: user.createdAt
+});
+
+// Returns an error message, or null when the input is usable
+export const validateRegistration = (input: Partial<RegistrationInput>) => {
+  const { email, password, name } = input;
+  if (!email || !password || !name) {
+    return 'Email, password, and name are required';
+  }
+  if (typeof email !== 'string' || typeof password !== 'string' || typeof name !== 'string') {
+    return 'Email, password, and name must be strings';
+  }
+  return null;
+};
+
+const userExists = (): RegistrationResult => ({ ok: false, status: 400, error: 'User already exists' });
+
+// Everything after the user is saved
+const completeRegistration = async (user: IUser, context: SessionContext): Promise<RegistrationResult> => {
+  // Start a session: short-lived access token plus refresh token
+  const tokens = await issueTokens(user._id as string, tokenClaims(user), context);
+
+  // Cache user profile (without password)
+  const userProfile = toUserProfile(user);
+  await cache.set(`user:profile:${user._id}`, userProfile, PROFILE_CACHE_TTL);
+  await cache.set(`user:email:${user.email}`, { exists: true, userId: user._id }, PROFILE_CACHE_TTL);
+
+  sendVerificationEmailInBackground(user);
+
+  return { ok: true, tokens, user: userProfile };
+};
+
+// The queue passes its request id as registrationId. A retried job finds the
+// user its earlier attempt saved and finishes that registration, instead of
+// reporting the email as taken.
+export const registerUser = async (input: RegistrationInput, context: SessionContext, registrationId?: string): Promise<RegistrationResult> => {
+  const invalid = validateRegistration(input);
+  if (invalid) {
+    return { ok: false, status: 400, error: invalid };
+  }
+
+  const email = input.email.toLowerCase();
+
+  if (registrationId) {
+    const created = await User.findOne({ email, registrationId });
+    if (created) {
+      return completeRegistration(created, context);
+    }
+  }
+
+  // Check if user already exists (with cache check first)
+  const cacheKey = `user:email:${email}`;
+  if (await cache.get(cacheKey)) {
+    return userExists();
+  }
+
+  const existingUser = await User.findOne({ email }).lean();
+  if (existingUser) {
+    // Cache the existence for future checks
+    await cache.set(cacheKey, { exists: true }, PROFILE_CACHE_TTL);
+    return userExists();
+  }
+
+  // Hash password with optimized rounds
+  const hashedPassword = await bcrypt.hash(input.password, BCRYPT_ROUNDS);
+
+  const user = new User({
+    email,
+    password: hashedPassword,
+    name: input.name,
+    registrationId
+  });
+
+  try {
+    await user.save();
+  } catch (error: any) {
+    // Lost a race with a concurrent registration for the same email
+    if (error.code === 11000) {
+      return userExists();
+    }
+    throw error;
+  }
+
+  return completeRegistration(user, context);
+};
@@ -0,0 +1,126 @@
+// ===== Address Validation =====
+// Countries are ISO 3166-1 alpha-2 codes. Postcodes are checked against a
+// per-country pattern where we know one; other countries get a loose check.
+
+export const ADDRESS_LIMITS = {
+  MAX_ADDRESSES: 20,
+  LABEL: 50,
+  RECIPIENT: 100,
+  LINE: 200,
+  CITY: 100
+};
+
+const COUNTRY_CODES = new Set((
+  'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ ' +
+  'CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR ' +
+  'GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP ' +
+  'KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT ' +
+  'MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW ' +
+  'SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG ' +
+  'UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW'
+).split(' '));
+
+const POSTCODE_PATTERNS: Record<string, RegExp> = {
+  US: /^\d{5}(-\d{4})?$/,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+  CA: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  ES: /^\d{5}$/,
+  IT: /^\d{5}$/,
+  NL: /^\d{4} ?[A-Z]{2}$/i,
+  BE: /^\d{4}$/,
+  AT: /^\d{4}$/,
+  CH: /^\d{4}$/,
+  DK: /^\d{4}$/,
+  NO: /^\d{4}$/,
+  SE: /^\d{3} ?\d{2}$/,
+  PL: /^\d{2}-\d{3}$/,
+  PT: /^\d{4}-\d{3}$/,
+  IE: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/i,
+  AU: /^\d{4}$/,
+  NZ: /^\d{4}$/,
+  IN: /^\d{6}$/,
+  JP: /^\d{3}-?\d{4}$/,
+  BR: /^\d{5}-?\d{3}$/,
+  NG: /^\d{6}$/,
+  ZA: /^\d{4}$/
+};
+
+const GENERIC_POSTCODE = /^[A-Z\d][A-Z\d -]{1,9}$/i;
+
+export interface AddressInput {
+  label?: string;
+  recipient: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  postcode: string;
+  country: string;
+  phone?: string;
+}
+
+const PHONE_PATTERN = /^\+?[\d\s().-]{6,20}$/;
+
+const optionalString = (value: unknown) => value === undefined || value === null || value === '';
+
+// Returns a list of problems, empty when the address is valid. Strings are
+// trimmed and the country upper-cased in place.
+export const validateAddress = (address: Record<string, any>): string[] => {
+  const errors: string[] = [];
+
+  for (const field of ['label', 'recipient', 'line1', 'line2', 'city', 'postcode', 'country', 'phone']) {
+    if (address[field] !== undefined && address[field] !== null && typeof address[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    } else if (typeof address[field] === 'string') {
+      address[field] = address[field].trim();
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  for (const field of ['recipient', 'line1', 'city', 'postcode', 'country']) {
+    if (optionalString(address[field])) {
+      errors.push(`${field} is required`);
+    }
+  }
+
+  const tooLong = (field: string, max: number) => {
+    if (typeof address[field] === 'string' && address[field].length > max) {
+      errors.push(`${field} must be at most ${max} characters`);
+    }
+  };
+  tooLong('label', ADDRESS_LIMITS.LABEL);
+  tooLong('recipient', ADDRESS_LIMITS.RECIPIENT);
+  tooLong('line1', ADDRESS_LIMITS.LINE);
+  tooLong('line2', ADDRESS_LIMITS.LINE);
+  tooLong('city', ADDRESS_LIMITS.CITY);
+
+  if (address.country) {
+    address.country = address.country.toUpperCase();
+    if (!COUNTRY_CODES.has(address.country)) {
+      errors.push('country must be an ISO 3166-1 alpha-2 code (e.g. GB, US)');
+    }
+  }
+
+  if (address.postcode && address.country && COUNTRY_CODES.has(address.country)) {
+    const pattern = POSTCODE_PATTERNS[address.country] || GENERIC_POSTCODE;
+    if (!pattern.test(address.postcode)) {
+      errors.push(`postcode is not valid for ${address.country}`);
+    }
+  }
+
+  if (!optionalString(address.phone) && !PHONE_PATTERN.test(address.phone)) {
+    errors.push('phone must contain 6-20 digits, spaces or +().-');
+  }
+
+  return errors;
+};
+
+// Only the known address fields, for building or updating a stored address
+export const pickAddressFields = (body: Record<string, any>): Partial<AddressInput> => {
+  const fields: Record<string, any> = {};
+  for (const field of ['label', 'recipient', 'line1', 'line2', 'city', 'postcode', 'country', 'phone']) {
+    if (body[field] !== undefined) fields[field] = body[field];
+  }
+  return fields;
+};